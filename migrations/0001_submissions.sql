@@ -0,0 +1,42 @@
+-- Submission archive (optional ARCHIVE_DB binding)
+CREATE TABLE IF NOT EXISTS submissions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  request_id TEXT NOT NULL UNIQUE,
+  host TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL DEFAULT '',
+  telegram TEXT NOT NULL DEFAULT '',
+  message TEXT NOT NULL DEFAULT '',
+  -- JSON: [{ "name", "label", "value" }]
+  fields TEXT NOT NULL DEFAULT '[]',
+  -- JSON: [{ "name", "type", "size" }]
+  attachments TEXT NOT NULL DEFAULT '[]',
+  -- delivered | partial | failed | queued
+  delivery_status TEXT NOT NULL,
+  -- JSON: [{ "destination", "channel", "ok", "error" }]
+  deliveries TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_submissions_created ON submissions (created_at);
+CREATE INDEX IF NOT EXISTS idx_submissions_host_created ON submissions (host, created_at);
+
+-- Full-text search on message, kept in sync by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS submissions_fts USING fts5(
+  message,
+  content = 'submissions',
+  content_rowid = 'id'
+);
+
+CREATE TRIGGER IF NOT EXISTS submissions_ai AFTER INSERT ON submissions BEGIN
+  INSERT INTO submissions_fts (rowid, message) VALUES (new.id, new.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS submissions_ad AFTER DELETE ON submissions BEGIN
+  INSERT INTO submissions_fts (submissions_fts, rowid, message) VALUES ('delete', old.id, old.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS submissions_au AFTER UPDATE OF message ON submissions BEGIN
+  INSERT INTO submissions_fts (submissions_fts, rowid, message) VALUES ('delete', old.id, old.message);
+  INSERT INTO submissions_fts (rowid, message) VALUES (new.id, new.message);
+END;
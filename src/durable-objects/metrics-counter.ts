@@ -0,0 +1,72 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env, MetricCount, MetricOutcome } from "../types";
+
+const BUCKET_MS = 60 * 60 * 1000; // 1 hour
+const RETENTION_MS = 90 * 24 * BUCKET_MS;
+
+/**
+ * Hourly outcome counters in SQLite storage, used when Analytics Engine
+ * isn't bound. A single instance ("global") serializes increments, which is
+ * plenty for contact form traffic.
+ */
+export class MetricsCounter extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(
+      `CREATE TABLE IF NOT EXISTS counts (
+         bucket INTEGER NOT NULL,
+         host TEXT NOT NULL,
+         outcome TEXT NOT NULL,
+         count INTEGER NOT NULL,
+         PRIMARY KEY (bucket, host, outcome)
+       )`
+    );
+  }
+
+  async increment(host: string, outcome: MetricOutcome): Promise<void> {
+    const bucket = Math.floor(Date.now() / BUCKET_MS);
+
+    this.ctx.storage.sql.exec(
+      `INSERT INTO counts (bucket, host, outcome, count) VALUES (?, ?, ?, 1)
+       ON CONFLICT (bucket, host, outcome) DO UPDATE SET count = count + 1`,
+      bucket,
+      host,
+      outcome
+    );
+
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + BUCKET_MS * 24);
+    }
+  }
+
+  /**
+   * Totals per host and outcome for hours overlapping [from, to] (epoch ms).
+   */
+  async query(from: number, to: number, host?: string): Promise<MetricCount[]> {
+    const rows = this.ctx.storage.sql.exec<{ host: string; outcome: string; count: number }>(
+      `SELECT host, outcome, SUM(count) AS count FROM counts
+       WHERE bucket >= ? AND bucket <= ?${host ? " AND host = ?" : ""}
+       GROUP BY host, outcome`,
+      Math.floor(from / BUCKET_MS),
+      Math.floor(to / BUCKET_MS),
+      ...(host ? [host] : [])
+    );
+
+    return rows.toArray().map((row) => ({
+      host: row.host,
+      outcome: row.outcome as MetricOutcome,
+      count: row.count,
+    }));
+  }
+
+  /**
+   * Daily cleanup of buckets past the retention period.
+   */
+  async alarm(): Promise<void> {
+    this.ctx.storage.sql.exec(
+      "DELETE FROM counts WHERE bucket < ?",
+      Math.floor((Date.now() - RETENTION_MS) / BUCKET_MS)
+    );
+    await this.ctx.storage.setAlarm(Date.now() + BUCKET_MS * 24);
+  }
+}
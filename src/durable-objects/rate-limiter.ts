@@ -0,0 +1,56 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env, RateLimitResult } from "../types";
+
+const TIMESTAMPS_KEY = "timestamps";
+
+/**
+ * Sliding-window counter for a single rate limit key.
+ * One instance per key (idFromName), so each hit is serialized and atomic —
+ * unlike the KV backend, parallel bursts can't slip past the limit.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  private timestamps: number[] | null = null;
+
+  /**
+   * Record a hit if the key is under its limit.
+   */
+  async hit(limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const cutoff = now - windowMs;
+
+    if (this.timestamps === null) {
+      this.timestamps = (await this.ctx.storage.get<number[]>(TIMESTAMPS_KEY)) || [];
+    }
+
+    const timestamps = this.timestamps.filter((t) => t > cutoff);
+
+    if (timestamps.length >= limit) {
+      this.timestamps = timestamps;
+      const resetAt = timestamps[timestamps.length - limit] + windowMs;
+      return { limited: true, limit, remaining: 0, resetAt };
+    }
+
+    timestamps.push(now);
+    this.timestamps = timestamps;
+    await this.ctx.storage.put(TIMESTAMPS_KEY, timestamps);
+
+    // Clean up storage once the window passes without new hits
+    await this.ctx.storage.setAlarm(now + windowMs);
+
+    return {
+      limited: false,
+      limit,
+      remaining: limit - timestamps.length,
+      resetAt: timestamps[0] + windowMs,
+    };
+  }
+
+  /**
+   * Each hit pushes the alarm to its own window end, so by the time it
+   * fires every timestamp has expired and the key is idle.
+   */
+  async alarm(): Promise<void> {
+    this.timestamps = null;
+    await this.ctx.storage.deleteAll();
+  }
+}
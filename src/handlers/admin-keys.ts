@@ -0,0 +1,74 @@
+import type { Context } from "hono";
+import type { AdminKeyRecord, Env } from "../types";
+import { requireAdmin, audit } from "./admin";
+import {
+  getAdminKeysConfig,
+  issueAdminKey,
+  normalizeKeyRequest,
+  revokeAdminKey,
+} from "../services/admin-keys";
+
+/**
+ * GET /admin/keys - List issued admin keys (hashes are never returned).
+ */
+export async function listAdminKeys(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "admin");
+  if (admin instanceof Response) return admin;
+
+  const config = await getAdminKeysConfig(c.env.CONFIG);
+
+  return c.json({
+    status: "ok",
+    keys: config.keys.map(publicRecord),
+    updatedAt: config.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/keys - Issue a key: { label, scopes, hosts? }.
+ * The key itself is only shown in this response.
+ */
+export async function createAdminKey(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "admin");
+  if (admin instanceof Response) return admin;
+
+  const request = normalizeKeyRequest(await c.req.json());
+  if (typeof request === "string") {
+    return c.json({ status: "error", error: "invalid_key_request", detail: request }, 400);
+  }
+
+  const issued = await issueAdminKey(c.env.CONFIG, request);
+  if (!issued) {
+    return c.json({ status: "error", error: "too_many_keys" }, 409);
+  }
+
+  audit(c, admin, "keys.create", issued.record.id, { after: publicRecord(issued.record) });
+  return c.json({ status: "ok", key: issued.key, ...publicRecord(issued.record) }, 201);
+}
+
+/**
+ * DELETE /admin/keys/:id - Revoke a key.
+ */
+export async function removeAdminKey(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "admin");
+  if (admin instanceof Response) return admin;
+
+  const record = await revokeAdminKey(c.env.CONFIG, c.req.param("id") || "");
+  if (!record) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  audit(c, admin, "keys.revoke", record.id, { before: publicRecord(record) });
+  return c.json({ status: "ok", id: record.id });
+}
+
+function publicRecord(record: AdminKeyRecord): Omit<AdminKeyRecord, "hash"> {
+  const { hash: _hash, ...rest } = record;
+  return rest;
+}
@@ -1,23 +1,107 @@
 import type { Context } from "hono";
-import type { Env, OriginsConfig } from "../types";
+import type {
+  Env,
+  AdminIdentity,
+  AdminScope,
+  FormSchemasConfig,
+  OriginsConfig,
+  RoutesConfig,
+  RoutingMap,
+  SpamPoliciesConfig,
+  Submission,
+  WidgetsConfig,
+} from "../types";
+import {
+  ROUTES_KEY,
+  getRoutingMap,
+  resolveRoute,
+  parseRoutingJson,
+  normalizeRouteConfig,
+  normalizeRouteHost,
+  redactRoutes,
+} from "../utils/routing";
+import { SCHEMAS_KEY, getFormSchemasConfig, normalizeFormSchema } from "../utils/schema";
+import { SAMPLE_SUBMISSION, renderTemplate, validateTemplate } from "../utils/template";
+import { WIDGETS_KEY, getWidgetsConfig, normalizeWidgetConfig } from "../utils/widget";
+import {
+  authenticateAdminKey,
+  canManageHost,
+  filterHosts,
+  getAdminKeysConfig,
+  hasScope,
+} from "../services/admin-keys";
+import { recordAudit } from "../services/audit";
+import {
+  SPAM_POLICIES_KEY,
+  getSpamPoliciesConfig,
+  normalizeSpamPolicy,
+} from "../services/spam";
+import { renderedLength } from "../services/telegram";
 
 const ORIGINS_KEY = "allowed_origins";
 
 /**
- * Middleware to check admin authorization.
+ * Check the X-Admin-Key header (ADMIN_KEY or an issued key) and that it
+ * grants `scope`. Returns the caller's identity, or an error response.
  */
-export function requireAdmin(c: Context<{ Bindings: Env }>): Response | null {
-  const adminKey = c.env.ADMIN_KEY;
-  if (!adminKey) {
+export async function requireAdmin(
+  c: Context<{ Bindings: Env }>,
+  scope: AdminScope
+): Promise<AdminIdentity | Response> {
+  const providedKey = c.req.header("X-Admin-Key");
+
+  if (!c.env.ADMIN_KEY && (await getAdminKeysConfig(c.env.CONFIG)).keys.length === 0) {
     return c.json({ status: "error", error: "admin_not_configured" }, 503);
   }
 
-  const providedKey = c.req.header("X-Admin-Key");
-  if (!providedKey || providedKey !== adminKey) {
+  const identity = providedKey
+    ? await authenticateAdminKey(c.env.CONFIG, c.env.ADMIN_KEY, providedKey)
+    : null;
+
+  if (!identity) {
     return c.json({ status: "error", error: "unauthorized" }, 401);
   }
 
-  return null;
+  if (!hasScope(identity, scope)) {
+    return c.json(
+      { status: "error", error: "forbidden", detail: `key lacks the "${scope}" scope` },
+      403
+    );
+  }
+
+  return identity;
+}
+
+/**
+ * Record an admin mutation in the audit log without delaying the response.
+ */
+export function audit(
+  c: Context<{ Bindings: Env }>,
+  admin: AdminIdentity,
+  action: string,
+  target?: string,
+  change: { before?: unknown; after?: unknown } = {}
+): void {
+  c.executionCtx.waitUntil(
+    recordAudit(c.env, {
+      actor: admin.label,
+      key_id: admin.id,
+      ip: c.req.header("CF-Connecting-IP") || "",
+      action,
+      ...(target ? { target } : {}),
+      ...change,
+    }).catch((e) => console.error("audit failed:", e))
+  );
+}
+
+/**
+ * 403 for a host outside a restricted key's host patterns.
+ */
+export function hostNotAllowed(c: Context<{ Bindings: Env }>, host: string): Response {
+  return c.json(
+    { status: "error", error: "host_not_allowed", detail: `key may not manage "${host}"` },
+    403
+  );
 }
 
 /**
@@ -26,17 +110,18 @@ export function requireAdmin(c: Context<{ Bindings: Env }>): Response | null {
 export async function listOrigins(
   c: Context<{ Bindings: Env }>
 ): Promise<Response> {
-  const authError = requireAdmin(c);
-  if (authError) return authError;
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
 
   const config = await getOriginsConfig(c.env.CONFIG);
   const envOrigins = parseEnvOrigins(c.env.ALLOWED_ORIGINS);
+  const visible = (p: string) => canManageHost(admin, p);
 
   return c.json({
     status: "ok",
     origins: {
-      dynamic: config?.patterns || [],
-      env: envOrigins,
+      dynamic: (config?.patterns || []).filter(visible),
+      env: envOrigins.filter(visible),
       updatedAt: config?.updatedAt || null,
     },
   });
@@ -48,8 +133,9 @@ export async function listOrigins(
 export async function replaceOrigins(
   c: Context<{ Bindings: Env }>
 ): Promise<Response> {
-  const authError = requireAdmin(c);
-  if (authError) return authError;
+  const admin = await requireAdmin(c, "origins:write");
+  if (admin instanceof Response) return admin;
+  if (admin.hosts) return replaceNotAllowed(c);
 
   const body = await c.req.json<{ patterns: string[] }>();
 
@@ -61,12 +147,17 @@ export async function replaceOrigins(
     .map((p) => String(p).trim().toLowerCase())
     .filter((p) => p.length > 0);
 
+  const before = await getOriginsConfig(c.env.CONFIG);
   const config: OriginsConfig = {
     patterns,
     updatedAt: new Date().toISOString(),
   };
 
   await c.env.CONFIG.put(ORIGINS_KEY, JSON.stringify(config));
+  audit(c, admin, "origins.replace", undefined, {
+    before: before?.patterns || [],
+    after: patterns,
+  });
 
   return c.json({ status: "ok", origins: patterns });
 }
@@ -77,28 +168,30 @@ export async function replaceOrigins(
 export async function addOrigin(
   c: Context<{ Bindings: Env }>
 ): Promise<Response> {
-  const authError = requireAdmin(c);
-  if (authError) return authError;
+  const admin = await requireAdmin(c, "origins:write");
+  if (admin instanceof Response) return admin;
 
   const body = await c.req.json<{ pattern: string }>();
   const pattern = String(body.pattern || "").trim().toLowerCase();
 
-  if (!pattern) {
-    return c.json({ status: "error", error: "invalid_pattern" }, 400);
+  if (pattern && !canManageHost(admin, pattern)) {
+    return hostNotAllowed(c, pattern);
   }
 
-  const config = await getOriginsConfig(c.env.CONFIG) || { patterns: [], updatedAt: "" };
+  const result = await addOriginPattern(c.env.CONFIG, pattern);
 
-  if (config.patterns.includes(pattern)) {
-    return c.json({ status: "ok", message: "already_exists", origins: config.patterns });
+  if (!result) {
+    return c.json({ status: "error", error: "invalid_pattern" }, 400);
   }
 
-  config.patterns.push(pattern);
-  config.updatedAt = new Date().toISOString();
+  const origins = result.patterns.filter((p) => canManageHost(admin, p));
 
-  await c.env.CONFIG.put(ORIGINS_KEY, JSON.stringify(config));
+  if (!result.added) {
+    return c.json({ status: "ok", message: "already_exists", origins });
+  }
 
-  return c.json({ status: "ok", origins: config.patterns });
+  audit(c, admin, "origins.add", pattern, { after: pattern });
+  return c.json({ status: "ok", origins });
 }
 
 /**
@@ -107,8 +200,8 @@ export async function addOrigin(
 export async function removeOrigin(
   c: Context<{ Bindings: Env }>
 ): Promise<Response> {
-  const authError = requireAdmin(c);
-  if (authError) return authError;
+  const admin = await requireAdmin(c, "origins:write");
+  if (admin instanceof Response) return admin;
 
   const pattern = decodeURIComponent(c.req.param("pattern") || "").toLowerCase();
 
@@ -116,23 +209,561 @@ export async function removeOrigin(
     return c.json({ status: "error", error: "invalid_pattern" }, 400);
   }
 
-  const config = await getOriginsConfig(c.env.CONFIG);
+  if (!canManageHost(admin, pattern)) {
+    return hostNotAllowed(c, pattern);
+  }
+
+  const patterns = await removeOriginPattern(c.env.CONFIG, pattern);
 
-  if (!config) {
+  if (!patterns) {
     return c.json({ status: "error", error: "not_found" }, 404);
   }
 
+  audit(c, admin, "origins.remove", pattern, { before: pattern });
+  return c.json({ status: "ok", origins: patterns.filter((p) => canManageHost(admin, p)) });
+}
+
+/**
+ * Add a pattern to the dynamic origins list.
+ * Returns null for an empty pattern; `added` is false if it already existed.
+ * Shared by the admin API and the Telegram bot commands.
+ */
+export async function addOriginPattern(
+  kv: KVNamespace,
+  rawPattern: unknown
+): Promise<{ added: boolean; patterns: string[] } | null> {
+  const pattern = String(rawPattern || "").trim().toLowerCase();
+  if (!pattern) return null;
+
+  const config = await getOriginsConfig(kv) || { patterns: [], updatedAt: "" };
+
+  if (config.patterns.includes(pattern)) {
+    return { added: false, patterns: config.patterns };
+  }
+
+  config.patterns.push(pattern);
+  config.updatedAt = new Date().toISOString();
+
+  await kv.put(ORIGINS_KEY, JSON.stringify(config));
+
+  return { added: true, patterns: config.patterns };
+}
+
+/**
+ * Remove a pattern from the dynamic origins list.
+ * Returns the remaining patterns, or null if it wasn't there.
+ */
+export async function removeOriginPattern(
+  kv: KVNamespace,
+  rawPattern: string
+): Promise<string[] | null> {
+  const pattern = rawPattern.trim().toLowerCase();
+  const config = await getOriginsConfig(kv);
+
+  if (!config) return null;
+
   const index = config.patterns.indexOf(pattern);
-  if (index === -1) {
+  if (index === -1) return null;
+
+  config.patterns.splice(index, 1);
+  config.updatedAt = new Date().toISOString();
+
+  await kv.put(ORIGINS_KEY, JSON.stringify(config));
+
+  return config.patterns;
+}
+
+/**
+ * GET /admin/routes - List all per-host routes.
+ */
+export async function listRoutes(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const config = await getRoutesConfig(c.env.CONFIG);
+  const envRoutes = parseRoutingJson(c.env.ROUTING_JSON);
+
+  return c.json({
+    status: "ok",
+    routes: {
+      dynamic: redactRoutes(filterHosts(admin, config?.routes || {})),
+      env: redactRoutes(filterHosts(admin, envRoutes)),
+      updatedAt: config?.updatedAt || null,
+    },
+  });
+}
+
+/**
+ * PUT /admin/routes - Replace all dynamic routes.
+ */
+export async function replaceRoutes(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+  if (admin.hosts) return replaceNotAllowed(c);
+
+  const body = await c.req.json<{ routes: Record<string, unknown> }>();
+
+  if (!body.routes || typeof body.routes !== "object" || Array.isArray(body.routes)) {
+    return c.json({ status: "error", error: "invalid_payload" }, 400);
+  }
+
+  const routes: RoutingMap = {};
+  for (const [rawHost, rawRoute] of Object.entries(body.routes)) {
+    const host = normalizeRouteHost(rawHost);
+    const route = normalizeRouteConfig(rawRoute);
+    if (!host || !route) {
+      return c.json(
+        { status: "error", error: "invalid_route", detail: `route "${rawHost}" is invalid` },
+        400
+      );
+    }
+    routes[host] = route;
+  }
+
+  const before = await getRoutesConfig(c.env.CONFIG);
+  const config: RoutesConfig = {
+    routes,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await c.env.CONFIG.put(ROUTES_KEY, JSON.stringify(config));
+  audit(c, admin, "routes.replace", undefined, {
+    before: redactRoutes(before?.routes || {}),
+    after: redactRoutes(routes),
+  });
+
+  return c.json({ status: "ok", routes: redactRoutes(routes) });
+}
+
+/**
+ * POST /admin/routes - Add or update the route for one host pattern.
+ */
+export async function upsertRoute(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const body = await c.req.json<{ host: string; route: unknown }>();
+  const host = normalizeRouteHost(body.host);
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const route = normalizeRouteConfig(body.route);
+  if (!route) {
+    return c.json({ status: "error", error: "invalid_route" }, 400);
+  }
+
+  const config = await getRoutesConfig(c.env.CONFIG) || { routes: {}, updatedAt: "" };
+  const previous = config.routes[host];
+
+  config.routes[host] = route;
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(ROUTES_KEY, JSON.stringify(config));
+  audit(c, admin, "routes.upsert", host, {
+    before: previous ? redactRoutes({ [host]: previous })[host] : null,
+    after: redactRoutes({ [host]: route })[host],
+  });
+
+  return c.json({ status: "ok", routes: redactRoutes(filterHosts(admin, config.routes)) });
+}
+
+/**
+ * DELETE /admin/routes/:host - Remove the route for a host pattern.
+ */
+export async function removeRoute(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const host = normalizeRouteHost(decodeURIComponent(c.req.param("host") || ""));
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const config = await getRoutesConfig(c.env.CONFIG);
+
+  if (!config || !config.routes[host]) {
     return c.json({ status: "error", error: "not_found" }, 404);
   }
 
-  config.patterns.splice(index, 1);
+  const previous = config.routes[host];
+  delete config.routes[host];
   config.updatedAt = new Date().toISOString();
 
-  await c.env.CONFIG.put(ORIGINS_KEY, JSON.stringify(config));
+  await c.env.CONFIG.put(ROUTES_KEY, JSON.stringify(config));
+  audit(c, admin, "routes.remove", host, {
+    before: redactRoutes({ [host]: previous })[host],
+  });
+
+  return c.json({ status: "ok", routes: redactRoutes(filterHosts(admin, config.routes)) });
+}
+
+/**
+ * GET /admin/schemas - List per-host form field schemas.
+ */
+export async function listSchemas(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const config = await getFormSchemasConfig(c.env.CONFIG);
+
+  return c.json({
+    status: "ok",
+    schemas: filterHosts(admin, config?.schemas || {}),
+    updatedAt: config?.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/schemas - Add or replace the form schema for one host pattern.
+ */
+export async function upsertSchema(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const body = await c.req.json<{ host: string; schema: unknown }>();
+  const host = normalizeRouteHost(body.host);
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const schema = normalizeFormSchema(body.schema);
+  if (!schema) {
+    return c.json({ status: "error", error: "invalid_schema" }, 400);
+  }
+
+  const config: FormSchemasConfig =
+    (await getFormSchemasConfig(c.env.CONFIG)) || { schemas: {}, updatedAt: "" };
+
+  const previous = config.schemas[host] || null;
+
+  config.schemas[host] = schema;
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(SCHEMAS_KEY, JSON.stringify(config));
+  audit(c, admin, "schemas.upsert", host, { before: previous, after: schema });
+
+  return c.json({ status: "ok", host, schema });
+}
+
+/**
+ * DELETE /admin/schemas/:host - Remove the form schema for a host pattern.
+ */
+export async function removeSchema(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const host = normalizeRouteHost(decodeURIComponent(c.req.param("host") || ""));
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const config = await getFormSchemasConfig(c.env.CONFIG);
+
+  if (!config || !config.schemas[host]) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  const previous = config.schemas[host];
+  delete config.schemas[host];
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(SCHEMAS_KEY, JSON.stringify(config));
+  audit(c, admin, "schemas.remove", host, { before: previous });
+
+  return c.json({ status: "ok", hosts: Object.keys(filterHosts(admin, config.schemas)) });
+}
+
+/**
+ * GET /admin/spam-rules - List per-host spam scoring policies.
+ */
+export async function listSpamPolicies(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const config = await getSpamPoliciesConfig(c.env.CONFIG);
+
+  return c.json({
+    status: "ok",
+    policies: filterHosts(admin, config?.policies || {}),
+    updatedAt: config?.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/spam-rules - Add or replace the spam policy for one host pattern.
+ */
+export async function upsertSpamPolicy(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const body = await c.req.json<{ host: string; policy: unknown }>();
+  const host = normalizeRouteHost(body.host);
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const policy = normalizeSpamPolicy(body.policy);
+  if (typeof policy === "string") {
+    return c.json({ status: "error", error: "invalid_policy", detail: policy }, 400);
+  }
+
+  const config: SpamPoliciesConfig =
+    (await getSpamPoliciesConfig(c.env.CONFIG)) || { policies: {}, updatedAt: "" };
+  const previous = config.policies[host] || null;
+
+  config.policies[host] = policy;
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(SPAM_POLICIES_KEY, JSON.stringify(config));
+  audit(c, admin, "spam_rules.upsert", host, { before: previous, after: policy });
+
+  return c.json({ status: "ok", host, policy });
+}
+
+/**
+ * DELETE /admin/spam-rules/:host - Remove the spam policy for a host pattern.
+ */
+export async function removeSpamPolicy(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const host = normalizeRouteHost(decodeURIComponent(c.req.param("host") || ""));
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const config = await getSpamPoliciesConfig(c.env.CONFIG);
+
+  if (!config || !config.policies[host]) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  const previous = config.policies[host];
+  delete config.policies[host];
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(SPAM_POLICIES_KEY, JSON.stringify(config));
+  audit(c, admin, "spam_rules.remove", host, { before: previous });
+
+  return c.json({ status: "ok", hosts: Object.keys(filterHosts(admin, config.policies)) });
+}
+
+/**
+ * GET /admin/widgets - List per-host widget settings.
+ */
+export async function listWidgets(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const config = await getWidgetsConfig(c.env.CONFIG);
+
+  return c.json({
+    status: "ok",
+    widgets: filterHosts(admin, config?.widgets || {}),
+    updatedAt: config?.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/widgets - Add or replace the widget settings for one host pattern.
+ */
+export async function upsertWidget(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const body = await c.req.json<{ host: string; widget: unknown }>();
+  const host = normalizeRouteHost(body.host);
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const widget = normalizeWidgetConfig(body.widget);
+  if (typeof widget === "string") {
+    return c.json({ status: "error", error: "invalid_widget", detail: widget }, 400);
+  }
+
+  const config: WidgetsConfig =
+    (await getWidgetsConfig(c.env.CONFIG)) || { widgets: {}, updatedAt: "" };
+  const previous = config.widgets[host] || null;
+
+  config.widgets[host] = widget;
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(WIDGETS_KEY, JSON.stringify(config));
+  audit(c, admin, "widgets.upsert", host, { before: previous, after: widget });
+
+  return c.json({ status: "ok", host, widget });
+}
 
-  return c.json({ status: "ok", origins: config.patterns });
+/**
+ * DELETE /admin/widgets/:host - Remove the widget settings for a host pattern.
+ */
+export async function removeWidget(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const host = normalizeRouteHost(decodeURIComponent(c.req.param("host") || ""));
+
+  if (!host) {
+    return c.json({ status: "error", error: "invalid_host" }, 400);
+  }
+
+  if (!canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  const config = await getWidgetsConfig(c.env.CONFIG);
+
+  if (!config || !config.widgets[host]) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  const previous = config.widgets[host];
+  delete config.widgets[host];
+  config.updatedAt = new Date().toISOString();
+
+  await c.env.CONFIG.put(WIDGETS_KEY, JSON.stringify(config));
+  audit(c, admin, "widgets.remove", host, { before: previous });
+
+  return c.json({ status: "ok", hosts: Object.keys(filterHosts(admin, config.widgets)) });
+}
+
+/**
+ * POST /admin/templates/preview - Render a template against sample data.
+ * Uses the given template, or the route template for `host`.
+ */
+export async function previewTemplate(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const body = await c.req.json<{
+    template?: string;
+    host?: string;
+    data?: Partial<Record<"name" | "email" | "telegram" | "message", string>> & {
+      fields?: Record<string, string>;
+    };
+  }>();
+
+  const host = normalizeRouteHost(body.host || "");
+  let template = body.template;
+
+  if (host && !canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  if (!template && host) {
+    const routing = await getRoutingMap(c.env.CONFIG, c.env.ROUTING_JSON);
+    template = resolveRoute(host, routing)?.template;
+  }
+
+  if (typeof template !== "string" || !template) {
+    return c.json({ status: "error", error: "template_not_found" }, 404);
+  }
+
+  const templateError = validateTemplate(template);
+  if (templateError) {
+    return c.json({ status: "error", error: "invalid_template", detail: templateError }, 400);
+  }
+
+  const data = body.data || {};
+  const sample: Submission = {
+    ...SAMPLE_SUBMISSION,
+    ...(host ? { host } : {}),
+    ...pickStrings(data, ["name", "email", "telegram", "message"]),
+    submitted_at: new Date().toISOString(),
+  };
+
+  if (data.fields && typeof data.fields === "object") {
+    sample.fields = Object.entries(data.fields).map(([name, value]) => ({
+      name,
+      label: name,
+      value: String(value),
+    }));
+  }
+
+  const text = renderTemplate(template, sample);
+
+  return c.json({ status: "ok", text, length: renderedLength(text) });
+}
+
+/**
+ * Get routes config from KV.
+ */
+export async function getRoutesConfig(
+  kv: KVNamespace
+): Promise<RoutesConfig | null> {
+  const raw = await kv.get(ROUTES_KEY);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -151,10 +782,35 @@ export async function getOriginsConfig(
   }
 }
 
+/**
+ * Replacing the whole list would touch other tenants' hosts.
+ */
+function replaceNotAllowed(c: Context<{ Bindings: Env }>): Response {
+  return c.json(
+    {
+      status: "error",
+      error: "host_not_allowed",
+      detail: "host-restricted keys must add and remove entries one at a time",
+    },
+    403
+  );
+}
+
+function pickStrings(
+  source: Record<string, unknown>,
+  keys: string[]
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const key of keys) {
+    if (typeof source[key] === "string") picked[key] = source[key] as string;
+  }
+  return picked;
+}
+
 /**
  * Parse ALLOWED_ORIGINS env var.
  */
-function parseEnvOrigins(envValue?: string): string[] {
+export function parseEnvOrigins(envValue?: string): string[] {
   if (!envValue) return [];
   return envValue
     .split(",")
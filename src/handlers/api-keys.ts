@@ -0,0 +1,91 @@
+import type { Context } from "hono";
+import type { ApiKeyRecord, Env } from "../types";
+import { requireAdmin, audit, hostNotAllowed } from "./admin";
+import { canManageHost } from "../services/admin-keys";
+import {
+  getApiKeysConfig,
+  issueApiKey,
+  normalizeApiKeyRequest,
+  revokeApiKey,
+} from "../services/api-keys";
+
+/**
+ * GET /admin/api-keys - List tenant API keys (hashes and signing
+ * secrets are never returned).
+ */
+export async function listApiKeys(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const config = await getApiKeysConfig(c.env.CONFIG);
+
+  return c.json({
+    status: "ok",
+    keys: config.keys.filter((key) => canManageHost(admin, key.host)).map(publicRecord),
+    updatedAt: config.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/api-keys - Issue a key: { label, host }.
+ * The key and signing secret are only shown in this response.
+ */
+export async function createApiKey(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const request = normalizeApiKeyRequest(await c.req.json());
+  if (typeof request === "string") {
+    return c.json({ status: "error", error: "invalid_key_request", detail: request }, 400);
+  }
+  if (!canManageHost(admin, request.host)) return hostNotAllowed(c, request.host);
+
+  const issued = await issueApiKey(c.env.CONFIG, request);
+  if (!issued) {
+    return c.json({ status: "error", error: "too_many_keys" }, 409);
+  }
+
+  audit(c, admin, "api_keys.create", issued.record.id, { after: publicRecord(issued.record) });
+  return c.json(
+    {
+      status: "ok",
+      key: issued.key,
+      signing_secret: issued.record.signing_secret,
+      ...publicRecord(issued.record),
+    },
+    201
+  );
+}
+
+/**
+ * DELETE /admin/api-keys/:id - Revoke a key.
+ */
+export async function removeApiKey(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const id = c.req.param("id") || "";
+  const existing = (await getApiKeysConfig(c.env.CONFIG)).keys.find((k) => k.id === id);
+  if (existing && !canManageHost(admin, existing.host)) return hostNotAllowed(c, existing.host);
+
+  const record = existing ? await revokeApiKey(c.env.CONFIG, id) : null;
+  if (!record) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  audit(c, admin, "api_keys.revoke", record.id, { before: publicRecord(record) });
+  return c.json({ status: "ok", id: record.id });
+}
+
+function publicRecord(
+  record: ApiKeyRecord
+): Omit<ApiKeyRecord, "hash" | "signing_secret"> {
+  const { hash: _hash, signing_secret: _secret, ...rest } = record;
+  return rest;
+}
@@ -0,0 +1,218 @@
+import type { Context } from "hono";
+import type {
+  ApiKeyRecord,
+  ApiResponse,
+  ApiSubmitData,
+  Env,
+  ExtraField,
+  FieldError,
+} from "../types";
+import { getRoutingMap, normalizeRouteHost, resolveRoute } from "../utils/routing";
+import { sanitizeTelegram, trimLimit } from "../utils/sanitize";
+import { BUILTIN_MAX_LENGTHS, getFormSchema, validateFields } from "../utils/schema";
+import { buildRateLimitRules, checkRateLimits } from "../services/rate-limit";
+import { findBlocked, getBlocklist } from "../services/blocklist";
+import {
+  authenticateApiKey,
+  consumeSignature,
+  keyCoversHost,
+  verifySignedRequest,
+} from "../services/api-keys";
+import {
+  acceptSubmission,
+  blockedResponse,
+  jsonError,
+  rateLimitedResponse,
+  track,
+} from "./send";
+
+const MAX_METADATA_BYTES = 4096;
+const MAX_METADATA_KEYS = 50;
+const TEXT_FIELDS = ["name", "email", "telegram", "message"] as const;
+
+/**
+ * POST /api/v1/submit - Server-to-server submission for the key's host.
+ * Authenticated with `Authorization: Bearer <key>` or an HMAC-signed
+ * body (X-Relay-Key-Id, X-Relay-Timestamp, X-Relay-Signature). The
+ * browser checks of /send (origin, honeypot, timing, captcha) don't
+ * apply; blocklist, rate limits, schema validation, idempotency and
+ * spam scoring do.
+ */
+export async function submitHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const env = c.env;
+  const body = await c.req.text();
+
+  const key = await authenticate(c, body);
+  if (typeof key === "string") {
+    return c.json<ApiResponse>({ status: "error", error: "unauthorized", detail: key }, 401);
+  }
+
+  let data: ApiSubmitData;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return jsonError(c, "invalid_json", 400);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return jsonError(c, "invalid_json", 400);
+  }
+
+  // The key's host, or a host under its pattern
+  const host =
+    typeof data.host === "string"
+      ? normalizeRouteHost(data.host)
+      : key.host.includes("*")
+        ? ""
+        : key.host;
+
+  if (!host || !/^[a-z0-9.-]+$/.test(host)) {
+    return c.json<ApiResponse>(
+      { status: "error", error: "invalid_host", detail: "host must be a host name" },
+      400
+    );
+  }
+  if (!keyCoversHost(key, host)) {
+    return c.json<ApiResponse>(
+      { status: "error", error: "host_not_allowed", detail: `key may not submit for "${host}"` },
+      403
+    );
+  }
+
+  const limited = await checkRateLimits(env, buildRateLimitRules(env, { apiKey: key.id, host }));
+  if (limited) {
+    track(c, host, "rate_limited");
+    return rateLimitedResponse(c, limited);
+  }
+
+  const blocked = findBlocked(await getBlocklist(env.CONFIG), {
+    host,
+    email: typeof data.email === "string" ? data.email : undefined,
+  });
+  if (blocked) {
+    return blockedResponse(c, host, blocked);
+  }
+
+  const metadata = parseMetadata(data.metadata);
+  if (typeof metadata === "string") {
+    return c.json<ApiResponse>(
+      { status: "error", error: "invalid_metadata", detail: metadata },
+      400
+    );
+  }
+
+  // JSON can carry any type; the built-in fields must be strings
+  const typeErrors: FieldError[] = TEXT_FIELDS.filter(
+    (field) => data[field] !== undefined && data[field] !== null && typeof data[field] !== "string"
+  ).map((field) => ({ field, code: "invalid_type" }));
+  if (typeErrors.length > 0) {
+    track(c, host, "validation_failed");
+    return c.json<ApiResponse>(
+      { status: "error", error: "validation_failed", fields: typeErrors },
+      400
+    );
+  }
+
+  // Same field rules as /send
+  const routing = await getRoutingMap(env.CONFIG, env.ROUTING_JSON);
+  const route = resolveRoute(host, routing);
+  let extraFields: ExtraField[] = [];
+  const schema = await getFormSchema(env.CONFIG, host);
+  const maxLengths = { ...BUILTIN_MAX_LENGTHS, ...route?.max_lengths };
+
+  if (schema) {
+    const { errors, extras } = validateFields(data as Record<string, unknown>, schema, maxLengths);
+    if (errors.length > 0) {
+      track(c, host, "validation_failed");
+      return c.json<ApiResponse>(
+        { status: "error", error: "validation_failed", fields: errors },
+        400
+      );
+    }
+    extraFields = extras;
+  }
+
+  const name = trimLimit(data.name, maxLengths.name);
+  const email = trimLimit(data.email, maxLengths.email);
+  const telegram = sanitizeTelegram(data.telegram || "").slice(0, maxLengths.telegram);
+  const message = trimLimit(data.message, maxLengths.message);
+
+  if (!message && !telegram && !email && extraFields.length === 0) {
+    track(c, host, "empty_payload");
+    return jsonError(c, "empty_payload", 400);
+  }
+
+  if (email) {
+    const emailLimited = await checkRateLimits(env, buildRateLimitRules(env, { email }));
+    if (emailLimited) {
+      track(c, host, "rate_limited");
+      return rateLimitedResponse(c, emailLimited);
+    }
+  }
+
+  const idempotencyKey = c.req.header("Idempotency-Key");
+
+  return acceptSubmission(c, route, {
+    host,
+    name,
+    email,
+    telegram,
+    message,
+    extraFields,
+    files: [],
+    // The caller's server address says nothing about the submitter
+    ip: "unknown",
+    ...(metadata ? { metadata } : {}),
+    // Scoped to the key so tenants can't collide with each other's keys
+    ...(idempotencyKey ? { idempotencyKey: `${key.id}:${idempotencyKey}` } : {}),
+  });
+}
+
+/**
+ * Bearer key, else the signature headers. Returns the key, or why the
+ * request was refused.
+ */
+async function authenticate(
+  c: Context<{ Bindings: Env }>,
+  body: string
+): Promise<ApiKeyRecord | string> {
+  const authorization = c.req.header("Authorization") || "";
+
+  if (authorization.startsWith("Bearer ")) {
+    const key = await authenticateApiKey(c.env.CONFIG, authorization.slice(7).trim());
+    return key || "unknown_key";
+  }
+
+  const keyId = c.req.header("X-Relay-Key-Id");
+  const timestamp = c.req.header("X-Relay-Timestamp");
+  const signature = c.req.header("X-Relay-Signature");
+  if (!keyId || !timestamp || !signature) return "missing_credentials";
+
+  const key = await verifySignedRequest(c.env.CONFIG, {
+    key_id: keyId,
+    timestamp,
+    signature,
+    body,
+  });
+  if (typeof key === "string") return key;
+
+  return (await consumeSignature(c.env.IDEMPOTENCY, key.id, signature)) ? key : "replayed";
+}
+
+/**
+ * Metadata must be a JSON object within the size and key limits.
+ * Returns null when none was sent, or an error description.
+ */
+function parseMetadata(value: unknown): Record<string, unknown> | null | string {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) return "metadata must be an object";
+
+  const keys = Object.keys(value);
+  if (keys.length > MAX_METADATA_KEYS) return `at most ${MAX_METADATA_KEYS} keys`;
+  if (new TextEncoder().encode(JSON.stringify(value)).byteLength > MAX_METADATA_BYTES) {
+    return `at most ${MAX_METADATA_BYTES} bytes of JSON`;
+  }
+
+  return keys.length > 0 ? (value as Record<string, unknown>) : null;
+}
@@ -0,0 +1,22 @@
+import type { Context } from "hono";
+import type { Env } from "../types";
+import { requireAdmin } from "./admin";
+import { listAuditEntries } from "../services/audit";
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /admin/audit - Admin configuration changes, newest first.
+ * Query: limit, cursor (from the previous page).
+ */
+export async function listAudit(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "admin");
+  if (admin instanceof Response) return admin;
+
+  const limit = Math.min(parseInt(c.req.query("limit") || "", 10) || 50, MAX_PAGE_SIZE);
+  const { items, cursor } = await listAuditEntries(c.env.CONFIG, c.req.query("cursor"), limit);
+
+  return c.json({ status: "ok", entries: items, cursor });
+}
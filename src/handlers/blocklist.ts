@@ -0,0 +1,135 @@
+import type { Context } from "hono";
+import type { AdminIdentity, BlocklistEntry, Env } from "../types";
+import { requireAdmin, audit, hostNotAllowed } from "./admin";
+import {
+  BLOCKLIST_TYPES,
+  MAX_BLOCKLIST_ENTRIES,
+  addToBlocklist,
+  getBlocklist,
+  normalizeBlocklistInput,
+  removeFromBlocklist,
+} from "../services/blocklist";
+import { canManageHost } from "../services/admin-keys";
+import { normalizeRouteHost } from "../utils/routing";
+
+/**
+ * GET /admin/blocklist - List active blocklist entries the key may manage.
+ * Optional filters: ?type=cidr, ?host=site.com (exact scope).
+ */
+export async function listBlocklist(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const type = c.req.query("type");
+  if (type && !BLOCKLIST_TYPES.some((t) => t === type)) {
+    return c.json(
+      { status: "error", error: "invalid_type", detail: `one of: ${BLOCKLIST_TYPES.join(", ")}` },
+      400
+    );
+  }
+  const host = c.req.query("host");
+
+  const config = await getBlocklist(c.env.CONFIG);
+  const now = new Date().toISOString();
+  const entries = config.entries.filter(
+    (entry) =>
+      (!entry.expires_at || entry.expires_at > now) &&
+      canManageEntry(admin, entry) &&
+      (!type || entry.type === type) &&
+      (host === undefined || (entry.host || "") === normalizeRouteHost(host))
+  );
+
+  return c.json({
+    status: "ok",
+    blocklist: entries,
+    updatedAt: config.updatedAt || null,
+  });
+}
+
+/**
+ * POST /admin/blocklist - Block a sender, or update an existing entry
+ * with the same type, value and host.
+ */
+export async function upsertBlocklistEntry(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const input = normalizeBlocklistInput(await c.req.json());
+  if (typeof input === "string") {
+    return c.json({ status: "error", error: "invalid_entry", detail: input }, 400);
+  }
+
+  if (!canManageHost(admin, input.host || "*")) {
+    return hostNotAllowed(c, input.host || "*");
+  }
+
+  const before = (await getBlocklist(c.env.CONFIG)).entries.find(
+    (e) => e.type === input.type && e.value === input.value && (e.host || "") === (input.host || "")
+  );
+  const [entry] = await addToBlocklist(c.env.CONFIG, [input]);
+
+  if (!entry) {
+    return c.json(
+      {
+        status: "error",
+        error: "blocklist_full",
+        detail: `at most ${MAX_BLOCKLIST_ENTRIES} entries`,
+      },
+      409
+    );
+  }
+
+  audit(c, admin, before ? "blocklist.update" : "blocklist.add", `${entry.type}:${entry.value}`, {
+    before: before || null,
+    after: entry,
+  });
+
+  return c.json({ status: "ok", entry }, before ? 200 : 201);
+}
+
+/**
+ * DELETE /admin/blocklist/:value - Remove an entry by ID, or every entry
+ * with this value. ?host=site.com limits it to the entry with that scope.
+ */
+export async function removeBlocklistEntry(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const value = decodeURIComponent(c.req.param("value") || "").trim();
+  const hostQuery = c.req.query("host");
+  const host = hostQuery === undefined ? undefined : normalizeRouteHost(hostQuery);
+
+  const config = await getBlocklist(c.env.CONFIG);
+  const target = value.toLowerCase();
+  const denied = config.entries.find(
+    (e) =>
+      (e.id === value ||
+        (e.value.toLowerCase() === target && (host === undefined || (e.host || "") === host))) &&
+      !canManageEntry(admin, e)
+  );
+  if (denied) {
+    return hostNotAllowed(c, denied.host || "*");
+  }
+
+  const removed = value ? await removeFromBlocklist(c.env.CONFIG, value, host) : [];
+
+  if (removed.length === 0) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  audit(c, admin, "blocklist.remove", value, { before: removed });
+  return c.json({ status: "ok", removed });
+}
+
+/**
+ * Global entries (no host) can only be managed by unrestricted keys.
+ */
+function canManageEntry(admin: AdminIdentity, entry: BlocklistEntry): boolean {
+  return canManageHost(admin, entry.host || "*");
+}
@@ -0,0 +1,122 @@
+import type { Context } from "hono";
+import type { DeadLetter, Env } from "../types";
+import { requireAdmin, hostNotAllowed, audit } from "./admin";
+import { canManageHost } from "../services/admin-keys";
+import { deliver, resolveDestinationRef } from "../services/delivery";
+import { redactChannel } from "../utils/routing";
+import {
+  isOutboxEnabled,
+  listDeadLetters,
+  getDeadLetter,
+  deleteDeadLetter,
+  recordOutcome,
+} from "../services/outbox";
+
+/**
+ * GET /admin/dead-letters - List deliveries that exhausted their retries,
+ * with the channel a replay would use (secrets redacted).
+ */
+export async function listDeadLettersHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const { items, cursor } = await listDeadLetters(c.env.CONFIG, c.req.query("cursor"));
+  const visible = items.filter((item) => canManageHost(admin, item.message.submission.host));
+  const deadLetters = await Promise.all(visible.map((item) => publicDeadLetter(c.env, item)));
+
+  return c.json({ status: "ok", dead_letters: deadLetters, cursor });
+}
+
+/**
+ * POST /admin/dead-letters/:id/replay - Retry a dead letter.
+ * Re-queued in outbox mode, otherwise delivered right away.
+ */
+export async function replayDeadLetter(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const id = decodeURIComponent(c.req.param("id") || "");
+  const entry = await getDeadLetter(c.env.CONFIG, id);
+
+  if (!entry) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  if (!canManageHost(admin, entry.message.submission.host)) {
+    return hostNotAllowed(c, entry.message.submission.host);
+  }
+
+  if (isOutboxEnabled(c.env)) {
+    await c.env.OUTBOX_QUEUE!.send(entry.message);
+    await deleteDeadLetter(c.env.CONFIG, id);
+    audit(c, admin, "dead_letters.replay", id);
+    return c.json({ status: "ok", id, queued: true });
+  }
+
+  // The route's current channel, so rotated tokens and secrets apply
+  const { submission, destination } = entry.message;
+  const channel = await resolveDestinationRef(c.env, submission, entry.message);
+  if (!channel) {
+    return c.json(
+      { status: "error", error: "destination_not_found", detail: `route has no "${destination}"` },
+      409
+    );
+  }
+
+  const result = await deliver(channel, submission, c.env, destination);
+
+  if (!result.success) {
+    return c.json({ status: "error", error: "delivery_failed", detail: result.error }, 502);
+  }
+
+  await recordOutcome(c.env, entry.message, { ok: true });
+  await deleteDeadLetter(c.env.CONFIG, id);
+  audit(c, admin, "dead_letters.replay", id);
+  return c.json({ status: "ok", id, delivered: true });
+}
+
+/**
+ * DELETE /admin/dead-letters/:id - Discard a dead letter.
+ */
+export async function removeDeadLetter(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "routes:write");
+  if (admin instanceof Response) return admin;
+
+  const id = decodeURIComponent(c.req.param("id") || "");
+
+  const entry = await getDeadLetter(c.env.CONFIG, id);
+
+  if (!entry) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  if (!canManageHost(admin, entry.message.submission.host)) {
+    return hostNotAllowed(c, entry.message.submission.host);
+  }
+
+  await deleteDeadLetter(c.env.CONFIG, id);
+  audit(c, admin, "dead_letters.remove", id, { before: { error: entry.error } });
+  return c.json({ status: "ok", id });
+}
+
+/**
+ * The entry with the current channel, secrets hidden.
+ */
+async function publicDeadLetter(env: Env, entry: DeadLetter) {
+  const channel = await resolveDestinationRef(env, entry.message.submission, entry.message);
+
+  return {
+    id: entry.id,
+    message: entry.message,
+    channel: channel ? redactChannel(channel) : null,
+    error: entry.error,
+    attempts: entry.attempts,
+    failed_at: entry.failed_at,
+  };
+}
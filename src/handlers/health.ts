@@ -1,20 +1,37 @@
 import type { Context } from "hono";
 import type { Env } from "../types";
 import { getAllowedOrigins } from "../utils/origin";
+import { getRoutingMap } from "../utils/routing";
+import { isOutboxEnabled } from "../services/outbox";
+import { metricsBackend } from "../services/metrics";
+import { resolveMailProvider } from "../services/mail";
 
 export async function healthHandler(c: Context<{ Bindings: Env }>) {
   const env = c.env;
   const origins = await getAllowedOrigins(env.CONFIG, env.ALLOWED_ORIGINS);
+  const routing = await getRoutingMap(env.CONFIG, env.ROUTING_JSON);
+  const routesCount = Object.keys(routing).length;
 
   return c.json({
     ok: true,
     time: new Date().toISOString(),
     config: {
       turnstile: env.ENABLE_TURNSTILE === "true",
+      form_tokens: !!env.FORM_TOKEN_SECRET,
       bot_configured: !!env.BOT_TOKEN,
       origins_count: origins.length,
       rate_limit_per_min: parseInt(env.RATE_LIMIT_PER_MIN, 10) || 30,
-      routing_configured: !!env.ROUTING_JSON,
+      rate_limit_backend:
+        env.RATE_LIMIT_BACKEND === "durable_object" && env.RATE_LIMITER
+          ? "durable_object"
+          : "kv",
+      delivery_mode: isOutboxEnabled(env) ? "outbox" : "direct",
+      archive_configured: !!env.ARCHIVE_DB,
+      metrics_backend: metricsBackend(env),
+      bot_commands: !!env.TELEGRAM_WEBHOOK_SECRET,
+      mail_provider: resolveMailProvider(env)?.name || null,
+      routing_configured: routesCount > 0,
+      routes_count: routesCount,
     },
   });
 }
@@ -1,22 +1,119 @@
 import type { Context } from "hono";
-import type { Env, ContactFormData, ApiResponse, RoutingMap } from "../types";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type {
+  Env,
+  ContactFormData,
+  ApiResponse,
+  DeliveryState,
+  DeliveryStatus,
+  ExtraField,
+  MetricOutcome,
+  BlocklistEntry,
+  RateLimitResult,
+  RateLimitRule,
+  RouteConfig,
+  Submission,
+} from "../types";
 import { normalizeHost, matchOrigin, getAllowedOrigins } from "../utils/origin";
-import { sanitizeTelegram, trimLimit, buildMessageText } from "../utils/sanitize";
-import { isRateLimited } from "../services/rate-limit";
+import { getRoutingMap, resolveRoute } from "../utils/routing";
+import { sanitizeTelegram, trimLimit } from "../utils/sanitize";
+import { splitFormData, validateAttachments } from "../utils/attachments";
+import { BUILTIN_MAX_LENGTHS, getFormSchema, validateFields } from "../utils/schema";
+import {
+  buildRateLimitRules,
+  checkRateLimits,
+  rateLimitHeaders,
+} from "../services/rate-limit";
 import { isDuplicate, payloadHash } from "../services/idempotency";
-import { sendTelegramMessage } from "../services/telegram";
+import {
+  submissionDestinations,
+  destinationRefs,
+  isChannelConfigured,
+  deliverAll,
+} from "../services/delivery";
+import { isOutboxEnabled, enqueueDeliveries } from "../services/outbox";
+import { holdSubmission, planDelivery, silenceDestinations } from "../services/digest";
+import { archiveSubmission, deliveryState } from "../services/archive";
+import { isHostMuted } from "../services/mute";
+import { findBlocked, getBlocklist } from "../services/blocklist";
+import { REJECTED_HOST, recordMetric } from "../services/metrics";
+import { getSpamPolicy, scoreSubmission } from "../services/spam";
+import { resolveCaptcha, verifyCaptcha } from "../services/captcha";
+import { consumeFormToken, isFormTokenUsed, verifyFormToken } from "../services/form-token";
+import { sendAutoReply } from "../services/auto-reply";
+import { apiMessage, negotiateLocale } from "../utils/i18n";
 
+/** Where a plain HTML form post is sent back to (redirect mode) */
+interface RedirectTarget {
+  success_url?: string;
+  error_url?: string;
+}
+
+/** Filled in by handleSend; tells sendHandler how to shape the response */
+interface ReplyOptions {
+  redirect: RedirectTarget;
+  /** The submission's `lang` field, once the body is parsed */
+  lang?: string;
+}
+
+/**
+ * POST /send. Form posts (urlencoded or multipart) from a host with
+ * redirect URLs, or with a `_redirect` field, get a 303 instead of JSON.
+ * JSON responses get a localized `message` when the client sent a `lang`
+ * field or an Accept-Language header.
+ */
 export async function sendHandler(
   c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const reply: ReplyOptions = { redirect: {} };
+  const response = await handleSend(c, reply);
+  const successUrl = reply.redirect.success_url;
+
+  if (successUrl) {
+    const result = await readResult(response);
+    const url = new URL(
+      result.status === "ok" ? successUrl : reply.redirect.error_url || successUrl
+    );
+    url.searchParams.set("status", result.status);
+    if (result.status === "error") url.searchParams.set("error", result.error || "internal_error");
+    return c.redirect(url.toString(), 303);
+  }
+
+  const locale = negotiateLocale(reply.lang, c.req.header("Accept-Language"));
+  if (!locale) return response;
+
+  const result = await readResult(response);
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  headers.set("Content-Language", locale);
+  return new Response(JSON.stringify({ ...result, message: apiMessage(result, locale) }), {
+    status: response.status,
+    headers,
+  });
+}
+
+async function readResult(response: Response): Promise<ApiResponse> {
+  return response
+    .clone()
+    .json<ApiResponse>()
+    .catch((): ApiResponse => ({ status: "error", error: "internal_error" }));
+}
+
+async function handleSend(
+  c: Context<{ Bindings: Env }>,
+  reply: ReplyOptions
 ): Promise<Response> {
   const env = c.env;
+  const { redirect } = reply;
 
-  // 1. Origin validation
   const origin = c.req.header("Origin") || "";
   const host = normalizeHost(origin);
   const allowedOrigins = await getAllowedOrigins(env.CONFIG, env.ALLOWED_ORIGINS);
 
+  // 1. Origin validation, before the body is read.
+  // Rejected origins always get JSON, never a redirect.
   if (!matchOrigin(host, allowedOrigins)) {
+    track(c, REJECTED_HOST, "origin_not_allowed");
     return c.json<ApiResponse>(
       {
         status: "error",
@@ -27,158 +124,501 @@ export async function sendHandler(
     );
   }
 
-  // 2. Rate limiting
+  // Plain form posts may be answered with a redirect (see sendHandler).
+  // Their body is read now so the remaining rejections can redirect too.
+  const contentType = c.req.header("Content-Type") || "";
+  const isFormPost = !contentType.includes("application/json") && contentType.includes("form");
+  const routing = await getRoutingMap(env.CONFIG, env.ROUTING_JSON);
+  const route = resolveRoute(host, routing);
+  let data: ContactFormData = {};
+  let files: File[] = [];
+
+  if (isFormPost) {
+    let form: FormData;
+    try {
+      form = await c.req.formData();
+    } catch {
+      return jsonError(c, "invalid_body", 400);
+    }
+
+    if (route?.redirect) Object.assign(redirect, route.redirect);
+
+    const parsed = splitFormData(form);
+    data = parsed.fields as ContactFormData;
+    files = parsed.files;
+
+    // A `_redirect` field overrides the route's URLs if it points back at the form's site
+    const redirectField = parseRedirectField(data._redirect, host, allowedOrigins);
+    if (redirectField) {
+      redirect.success_url = redirectField;
+      redirect.error_url = redirectField;
+    }
+  }
+
+  // Blocklist: network keys now, the sender's email once the body is parsed
   const ip = c.req.header("CF-Connecting-IP") || c.req.header("X-Forwarded-For") || "unknown";
-  const limitPerMin = parseInt(env.RATE_LIMIT_PER_MIN, 10) || 30;
+  const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+  const blocklist = await getBlocklist(env.CONFIG);
+  const blockedNetwork = findBlocked(blocklist, {
+    host,
+    ip,
+    country: cf?.country,
+    asn: cf?.asn,
+  });
 
-  if (await isRateLimited(env.RATE_LIMIT, ip, limitPerMin)) {
-    return jsonError(c, "rate_limited", 429);
+  if (blockedNetwork) {
+    return blockedResponse(c, host, blockedNetwork);
   }
 
-  // 3. Parse body
-  let data: ContactFormData = {};
-  const contentType = c.req.header("Content-Type") || "";
+  // 2. Rate limiting (per IP and origin host)
+  const limited = await checkRateLimits(env, buildRateLimitRules(env, { ip, host }));
 
+  if (limited) {
+    track(c, host, "rate_limited");
+    return rateLimitedResponse(c, limited);
+  }
+
+  // 3. Parse body (form posts were read above)
   if (contentType.includes("application/json")) {
     data = await c.req.json<ContactFormData>();
-  } else if (contentType.includes("form")) {
-    const formData = await c.req.formData();
-    data = Object.fromEntries(formData.entries()) as ContactFormData;
+  }
+
+  if (typeof data.lang === "string") reply.lang = data.lang;
+
+  const blockedSender = findBlocked(blocklist, { host, email: data.email });
+  if (blockedSender) {
+    return blockedResponse(c, host, blockedSender);
   }
 
   // 4. Honeypot check
   if ((data.website || "").trim()) {
     // Silent success for bots
+    track(c, host, "honeypot");
     return c.json<ApiResponse>({ status: "ok" }, 200);
   }
 
-  // 5. Time-to-submit check
-  try {
-    const tsClient = parseInt(data.ts || "0", 10);
-    if (tsClient > 0 && Date.now() - tsClient < 800) {
+  // 5. Time-to-submit check: signed form token, else the client's `ts`.
+  // The token is only used up once every other check has passed, so a
+  // fixable error (a missing field, a failed captcha) doesn't burn it.
+  const tokenPolicy = route?.form_token;
+  const formToken = typeof data.form_token === "string" ? data.form_token : "";
+  let tokenNonce = "";
+
+  if (formToken && env.FORM_TOKEN_SECRET) {
+    const verdict = await verifyFormToken(env.FORM_TOKEN_SECRET, formToken, host, tokenPolicy);
+    if (!verdict.ok && verdict.reason === "too_fast") {
+      track(c, host, "too_fast");
       return jsonError(c, "too_fast", 400);
     }
-  } catch {
-    // Ignore parse errors
+    if (!verdict.ok || (await isFormTokenUsed(env.IDEMPOTENCY, verdict.nonce))) {
+      return invalidFormToken(c, host, verdict.ok ? "already_used" : verdict.reason);
+    }
+    tokenNonce = verdict.nonce;
+  } else if (tokenPolicy?.required) {
+    track(c, host, "invalid_form_token");
+    return jsonError(c, "form_token_required", 400);
+  } else {
+    try {
+      const tsClient = parseInt(data.ts || "0", 10);
+      if (tsClient > 0 && Date.now() - tsClient < 800) {
+        track(c, host, "too_fast");
+        return jsonError(c, "too_fast", 400);
+      }
+    } catch {
+      // Ignore parse errors
+    }
   }
 
   // 6. Input validation & sanitization
-  const name = trimLimit(data.name, 256);
-  const email = trimLimit(data.email, 256);
-  const telegram = sanitizeTelegram(data.telegram || "").slice(0, 64);
-  const message = trimLimit(data.message, 5000);
+  let extraFields: ExtraField[] = [];
+  const schema = await getFormSchema(env.CONFIG, host);
+  const maxLengths = { ...BUILTIN_MAX_LENGTHS, ...route?.max_lengths };
+
+  if (schema) {
+    const { errors, extras } = validateFields(data as Record<string, unknown>, schema, maxLengths);
+    if (errors.length > 0) {
+      track(c, host, "validation_failed");
+      return c.json<ApiResponse>(
+        { status: "error", error: "validation_failed", fields: errors },
+        400
+      );
+    }
+    extraFields = extras;
+  }
+
+  const name = trimLimit(data.name, maxLengths.name);
+  const email = trimLimit(data.email, maxLengths.email);
+  const telegram = sanitizeTelegram(data.telegram || "").slice(0, maxLengths.telegram);
+  const message = trimLimit(data.message, maxLengths.message);
 
-  if (!message && !telegram && !email) {
+  if (!message && !telegram && !email && extraFields.length === 0) {
+    track(c, host, "empty_payload");
     return jsonError(c, "empty_payload", 400);
   }
 
-  // 7. Turnstile verification (if enabled)
-  if (env.ENABLE_TURNSTILE === "true") {
-    const captchaToken = data.cf_turnstile_response || data.hcaptcha_response || "";
-    if (!await verifyTurnstile(captchaToken, env.TURNSTILE_SECRET || "")) {
-      return jsonError(c, "captcha_failed", 400);
+  // Attachments are checked against the route's policy
+  const attachmentError = validateAttachments(files, route?.attachments);
+
+  if (attachmentError) {
+    track(c, host, "attachment_rejected");
+    return c.json<ApiResponse>(
+      { status: "error", error: attachmentError.error, detail: attachmentError.detail },
+      attachmentError.status
+    );
+  }
+
+  // Per-sender rate limit, once the email is known
+  if (email) {
+    const emailLimited = await checkRateLimits(env, buildRateLimitRules(env, { email }));
+    if (emailLimited) {
+      track(c, host, "rate_limited");
+      return rateLimitedResponse(c, emailLimited);
+    }
+  }
+
+  // 7. Captcha verification (route's provider, or the global Turnstile switch)
+  const captcha = resolveCaptcha(route, env);
+  if (captcha) {
+    const verdict = await verifyCaptcha(captcha, data as Record<string, unknown>, {
+      host,
+      ip,
+    });
+    if (!verdict.ok) {
+      track(c, host, "captcha_failed");
+      return c.json<ApiResponse>(
+        { status: "error", error: "captcha_failed", detail: verdict.reason },
+        400
+      );
     }
   }
 
+  if (tokenNonce && !(await consumeFormToken(env.IDEMPOTENCY, tokenNonce, tokenPolicy))) {
+    return invalidFormToken(c, host, "already_used");
+  }
+
+  return acceptSubmission(c, route, {
+    host,
+    name,
+    email,
+    telegram,
+    message,
+    extraFields,
+    files,
+    ip,
+    idempotencyKey: c.req.header("Idempotency-Key"),
+  });
+}
+
+/** A validated submission, as handed over by /send or /api/v1/submit */
+export interface SubmissionInput {
+  host: string;
+  name: string;
+  email: string;
+  telegram: string;
+  message: string;
+  extraFields: ExtraField[];
+  files: File[];
+  ip: string;
+  metadata?: Record<string, unknown>;
+  /** Caller's Idempotency-Key; a hash of the payload when unset */
+  idempotencyKey?: string;
+}
+
+/**
+ * Steps 8-10, shared by every submission endpoint: deduplicate, score
+ * for spam, then hold, queue or deliver to the route's destinations.
+ */
+export async function acceptSubmission(
+  c: Context<{ Bindings: Env }>,
+  route: RouteConfig | null,
+  input: SubmissionInput
+): Promise<Response> {
+  const env = c.env;
+  const { host, name, email, telegram, message, extraFields, files, ip, metadata } = input;
+
   // 8. Idempotency check
   const idempotencyKey =
-    c.req.header("Idempotency-Key") ||
-    (await payloadHash({ host, name, email, telegram, message }));
+    input.idempotencyKey ||
+    (await payloadHash({
+      host,
+      name,
+      email,
+      telegram,
+      message,
+      ...Object.fromEntries(extraFields.map((f) => [`field:${f.name}`, f.value])),
+      ...(files.length > 0
+        ? { attachments: files.map((f) => `${f.name}:${f.size}`).join(",") }
+        : {}),
+      ...(metadata ? { metadata: JSON.stringify(metadata) } : {}),
+    }));
 
   if (await isDuplicate(env.IDEMPOTENCY, idempotencyKey)) {
+    track(c, host, "duplicate");
     return c.json<ApiResponse>(
       { status: "ok", request_id: idempotencyKey, duplicate: true },
       200
     );
   }
 
-  // 9. Route to correct bot/chat
-  const { token, chatId } = await getRouting(host, env);
+  const submission: Submission = {
+    request_id: idempotencyKey,
+    host,
+    name,
+    email,
+    telegram,
+    message,
+    submitted_at: new Date().toISOString(),
+    ...(files.length > 0 ? { attachments: files } : {}),
+    ...(extraFields.length > 0 ? { fields: extraFields } : {}),
+    ...(ip !== "unknown" ? { ip } : {}),
+    ...(metadata ? { metadata } : {}),
+  };
+
+  // Spam scoring: drop silently, or flag for the suspect chat
+  const spamPolicy = await getSpamPolicy(env.CONFIG, host);
+
+  if (spamPolicy) {
+    const verdict = await scoreSubmission(env.RATE_LIMIT, spamPolicy, submission);
+
+    if (verdict.action === "drop") {
+      archive(c, submission, "spam", []);
+      track(c, host, "spam");
+      return c.json<ApiResponse>({ status: "ok", request_id: idempotencyKey }, 200);
+    }
 
-  if (!token || !chatId) {
+    if (verdict.action === "suspect") {
+      submission.spam = { score: verdict.score, reasons: verdict.reasons };
+    }
+  }
+
+  // Muted hosts are accepted (and archived) but not delivered
+  if (await isHostMuted(env.CONFIG, host)) {
+    archive(c, submission, "muted", []);
+    track(c, host, "muted");
+    return c.json<ApiResponse>({ status: "ok", request_id: idempotencyKey }, 200);
+  }
+
+  // 9. Resolve delivery destinations for this host
+  // (suspected spam goes only to the suspect chat, when one is set)
+  const destinations = submissionDestinations(
+    route,
+    env,
+    submission,
+    spamPolicy?.suspect_chat_id
+  );
+
+  if (!destinations.every(isChannelConfigured)) {
+    track(c, host, "routing_not_configured");
     return jsonError(c, "routing_not_configured", 500);
   }
 
-  // 10. Build message and send to Telegram
-  const text = buildMessageText(name, email, telegram, message, host);
-  const result = await sendTelegramMessage(token, chatId, text);
+  // Digest mode and quiet hours: hold for the cron, or send silently.
+  // Files can't be held, so submissions with attachments go out now.
+  const plan = planDelivery(route, Date.now(), files.length === 0);
 
-  if (!result.success) {
+  if (plan.release_at) {
+    await holdSubmission(env.CONFIG, submission, destinations, plan, route?.digest?.timezone);
+    archive(c, submission, "queued", []);
+    autoReply(c, route, submission);
+    track(c, host, "queued");
     return c.json<ApiResponse>(
-      { status: "error", error: "telegram_send_failed", detail: result.error },
-      502
+      { status: "ok", request_id: idempotencyKey, queued: true },
+      202
     );
   }
 
-  // Cache migrated supergroup chat ID for future requests
-  if (result.migrated_chat_id) {
-    c.executionCtx.waitUntil(
-      env.CONFIG.put(
-        `migrated_chat:${chatId}`,
-        result.migrated_chat_id,
-        { expirationTtl: 60 * 60 * 24 * 365 }
-      )
+  const outgoing = plan.silent ? silenceDestinations(destinations) : destinations;
+
+  // 10. Render and deliver to every destination
+
+  // Outbox mode: accept now, deliver from the queue consumer.
+  // Files can't be queued, so submissions with attachments go out directly.
+  // Archive first: the consumer records each outcome on the stored row.
+  if (isOutboxEnabled(env) && files.length === 0) {
+    await archive(c, submission, "queued", []);
+    await enqueueDeliveries(env, destinationRefs(destinations, plan.silent), submission);
+    autoReply(c, route, submission);
+    track(c, host, "queued");
+    return c.json<ApiResponse>(
+      { status: "ok", request_id: idempotencyKey, queued: true },
+      202
     );
   }
 
-  return c.json<ApiResponse>({ status: "ok", request_id: idempotencyKey }, 200);
-}
+  const results = await deliverAll(outgoing, submission, env);
 
-function jsonError(
-  c: Context<{ Bindings: Env }>,
-  error: string,
-  status: number
-): Response {
-  return c.json<ApiResponse>({ status: "error", error }, status);
-}
+  // Cache migrated supergroup chat IDs for future requests
+  for (const result of results) {
+    if (result.migrated_chat_id && result.chat_id) {
+      c.executionCtx.waitUntil(
+        env.CONFIG.put(
+          `migrated_chat:${result.chat_id}`,
+          result.migrated_chat_id,
+          { expirationTtl: 60 * 60 * 24 * 365 }
+        )
+      );
+    }
+  }
 
-async function getRouting(
-  host: string,
-  env: Env
-): Promise<{ token: string; chatId: string }> {
-  let routing: RoutingMap = {};
+  const deliveries: DeliveryStatus[] = results.map((result) => ({
+    destination: result.destination,
+    channel: result.channel,
+    ok: result.success,
+    ...(result.error ? { error: result.error } : {}),
+  }));
+  const state = deliveryState(deliveries);
+  archive(c, submission, state, deliveries);
+  track(c, host, state);
 
-  if (env.ROUTING_JSON) {
-    try {
-      routing = JSON.parse(env.ROUTING_JSON);
-    } catch {
-      // Ignore parse errors
+  // Single destination keeps the original response shape
+  if (results.length === 1) {
+    const [result] = results;
+    if (!result.success) {
+      return c.json<ApiResponse>(
+        {
+          status: "error",
+          error: result.channel === "telegram" ? "telegram_send_failed" : "delivery_failed",
+          detail: result.error,
+        },
+        502
+      );
     }
+    autoReply(c, route, submission);
+    return c.json<ApiResponse>({ status: "ok", request_id: idempotencyKey }, 200);
   }
 
-  const route = routing[host] || {};
-  let chatId = route.chat_id || env.TG_DEFAULT_CHAT_ID;
+  const failed = deliveries.filter((d) => !d.ok).length;
 
-  // Check if this chat was migrated to a supergroup
-  try {
-    const migrated = await env.CONFIG.get(`migrated_chat:${chatId}`);
-    if (migrated) chatId = migrated;
-  } catch {
-    // Ignore KV errors
+  if (failed === deliveries.length) {
+    return c.json<ApiResponse>(
+      { status: "error", error: "delivery_failed", request_id: idempotencyKey, deliveries },
+      502
+    );
   }
 
-  return {
-    token: route.bot_token || env.BOT_TOKEN,
-    chatId,
-  };
+  autoReply(c, route, submission);
+  return c.json<ApiResponse>(
+    {
+      status: "ok",
+      request_id: idempotencyKey,
+      ...(failed > 0 ? { partial: true } : {}),
+      deliveries,
+    },
+    200
+  );
 }
 
-async function verifyTurnstile(token: string, secret: string): Promise<boolean> {
-  if (!token || !secret) return false;
+/**
+ * Store the submission in the D1 archive (if bound) without delaying the response.
+ * The returned promise can be awaited when later work needs the row.
+ */
+function archive(
+  c: Context<{ Bindings: Env }>,
+  submission: Submission,
+  status: DeliveryState,
+  deliveries: DeliveryStatus[]
+): Promise<void> {
+  const db = c.env.ARCHIVE_DB;
+  if (!db) return Promise.resolve();
 
-  try {
-    const response = await fetch(
-      "https://challenges.cloudflare.com/turnstile/v0/siteverify",
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: new URLSearchParams({ secret, response: token }),
-      }
-    );
+  const stored = archiveSubmission(db, submission, status, deliveries).catch((e) =>
+    console.error("archive failed:", e)
+  );
+  c.executionCtx.waitUntil(stored);
+  return stored;
+}
+
+/**
+ * Confirmation email to the submitter, sent after the response.
+ * Suspected spam gets none.
+ */
+function autoReply(
+  c: Context<{ Bindings: Env }>,
+  route: RouteConfig | null,
+  submission: Submission
+): void {
+  if (!route?.auto_reply || !submission.email || submission.spam) return;
+
+  c.executionCtx.waitUntil(
+    sendAutoReply(c.env, route.auto_reply, submission)
+      .then((result) => {
+        if (!result.success) console.error("auto-reply not sent:", result.error);
+      })
+      .catch((e) => console.error("auto-reply failed:", e))
+  );
+}
+
+export function track(c: Context<{ Bindings: Env }>, host: string, outcome: MetricOutcome): void {
+  recordMetric(c.env, c.executionCtx, host, outcome);
+}
+
+/**
+ * Blocked senders get the same silent success as bots, unless the
+ * entry asks for a rejection.
+ */
+export function blockedResponse(
+  c: Context<{ Bindings: Env }>,
+  host: string,
+  entry: BlocklistEntry
+): Response {
+  track(c, host, "blocked");
+  if (entry.action === "reject") {
+    return jsonError(c, "blocked", 403);
+  }
+  return c.json<ApiResponse>({ status: "ok" }, 200);
+}
 
-    const result = await response.json<{ success: boolean }>();
-    return result.success;
+/**
+ * Accept a `_redirect` URL only on the submitting site or an explicitly
+ * allowed origin, so the relay can't be used as an open redirect. An
+ * empty allowlist (which admits every origin) allows only the former.
+ */
+function parseRedirectField(
+  value: unknown,
+  host: string,
+  allowedOrigins: string[]
+): string | null {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    const target = normalizeHost(url.origin);
+    const allowed =
+      (!!host && target === host) ||
+      (allowedOrigins.length > 0 && matchOrigin(target, allowedOrigins));
+    return allowed ? url.toString() : null;
   } catch {
-    return false;
+    return null;
   }
 }
+
+function invalidFormToken(c: Context<{ Bindings: Env }>, host: string, reason: string): Response {
+  track(c, host, "invalid_form_token");
+  return c.json<ApiResponse>(
+    { status: "error", error: "invalid_form_token", detail: reason },
+    400
+  );
+}
+
+export function rateLimitedResponse(
+  c: Context<{ Bindings: Env }>,
+  result: RateLimitResult & { rule: RateLimitRule }
+): Response {
+  return c.json<ApiResponse>(
+    {
+      status: "error",
+      error: "rate_limited",
+      detail: `${result.rule.scope} limit of ${result.limit} per ${result.rule.windowMs / 1000}s`,
+    },
+    429,
+    rateLimitHeaders(result)
+  );
+}
+
+export function jsonError(
+  c: Context<{ Bindings: Env }>,
+  error: string,
+  status: ContentfulStatusCode
+): Response {
+  return c.json<ApiResponse>({ status: "error", error }, status);
+}
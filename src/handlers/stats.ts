@@ -0,0 +1,96 @@
+import type { Context } from "hono";
+import type { Env, MetricCount } from "../types";
+import { requireAdmin, hostNotAllowed } from "./admin";
+import { canManageHost } from "../services/admin-keys";
+import { metricsBackend, queryMetrics, toPrometheus } from "../services/metrics";
+
+const DEFAULT_WINDOW = "24h";
+const MAX_WINDOW_MS = 90 * 24 * 3600_000;
+const UNITS: Record<string, number> = { m: 60_000, h: 3600_000, d: 24 * 3600_000 };
+
+/**
+ * GET /admin/stats - /send outcomes per host and reason.
+ * Query: window (e.g. 1h, 24h, 7d; default 24h) or from/to, host,
+ * format=json (default) or prometheus.
+ */
+export async function statsHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const backend = metricsBackend(c.env);
+  if (!backend) {
+    return c.json({ status: "error", error: "metrics_not_configured" }, 503);
+  }
+
+  const range = parseRange(c.req.query("window"), c.req.query("from"), c.req.query("to"));
+  if (!range) {
+    return c.json({ status: "error", error: "invalid_window" }, 400);
+  }
+
+  const host = (c.req.query("host") || "").trim().toLowerCase() || undefined;
+  if (host && !canManageHost(admin, host)) {
+    return hostNotAllowed(c, host);
+  }
+
+  let counts: MetricCount[];
+  try {
+    counts = await queryMetrics(c.env, range.from, range.to, host);
+  } catch (e) {
+    const detail = e instanceof Error ? e.message : String(e);
+    return c.json({ status: "error", error: "metrics_query_failed", detail }, 502);
+  }
+  counts = counts.filter((row) => canManageHost(admin, row.host));
+
+  if (c.req.query("format") === "prometheus") {
+    const windowSeconds = Math.round((range.to.getTime() - range.from.getTime()) / 1000);
+    c.header("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    return c.body(toPrometheus(counts, windowSeconds));
+  }
+
+  const outcomes: Record<string, number> = {};
+  const hosts: Record<string, Record<string, number>> = {};
+  let total = 0;
+
+  for (const row of counts) {
+    total += row.count;
+    outcomes[row.outcome] = (outcomes[row.outcome] || 0) + row.count;
+    hosts[row.host] = { ...hosts[row.host], [row.outcome]: row.count };
+  }
+
+  return c.json({
+    status: "ok",
+    backend,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    total,
+    outcomes,
+    hosts,
+  });
+}
+
+/**
+ * Explicit from/to wins over a relative window ("15m", "24h", "7d").
+ */
+function parseRange(
+  window?: string,
+  rawFrom?: string,
+  rawTo?: string
+): { from: Date; to: Date } | null {
+  const to = rawTo ? new Date(rawTo) : new Date();
+  let from: Date;
+
+  if (rawFrom) {
+    from = new Date(rawFrom);
+  } else {
+    const match = /^(\d+)([mhd])$/.exec(window || DEFAULT_WINDOW);
+    if (!match) return null;
+    from = new Date(to.getTime() - parseInt(match[1], 10) * UNITS[match[2]]);
+  }
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) return null;
+  if (to.getTime() - from.getTime() > MAX_WINDOW_MS) return null;
+
+  return { from, to };
+}
@@ -0,0 +1,177 @@
+import type { Context } from "hono";
+import type { AdminIdentity, DeliveryState, Env, SubmissionFilters } from "../types";
+import { requireAdmin, hostNotAllowed } from "./admin";
+import { canManageHost } from "../services/admin-keys";
+import { getSubmission, searchSubmissions, toCsv } from "../services/archive";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10_000;
+const DELIVERY_STATES: DeliveryState[] = [
+  "delivered",
+  "partial",
+  "failed",
+  "queued",
+  "muted",
+  "spam",
+];
+
+/**
+ * GET /admin/submissions - Search archived submissions.
+ * Query: host, from, to, q, status, limit, cursor (id of the last row seen).
+ */
+export async function listSubmissions(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const db = c.env.ARCHIVE_DB;
+  if (!db) {
+    return c.json({ status: "error", error: "archive_not_configured" }, 503);
+  }
+
+  const filters = parseFilters(c);
+  if (!filters) {
+    return c.json({ status: "error", error: "invalid_filter" }, 400);
+  }
+
+  const scopeError = checkHostFilter(c, admin, filters);
+  if (scopeError) return scopeError;
+
+  const limit = Math.min(
+    parseInt(c.req.query("limit") || "", 10) || DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE
+  );
+  const cursor = parseInt(c.req.query("cursor") || "", 10) || undefined;
+
+  const items = await searchSubmissions(db, filters, limit, cursor);
+
+  return c.json({
+    status: "ok",
+    submissions: items,
+    cursor: items.length === limit ? String(items[items.length - 1].id) : null,
+  });
+}
+
+/**
+ * GET /admin/submissions/export - Download matching submissions.
+ * Same filters as the list endpoint; format=csv (default) or json.
+ */
+export async function exportSubmissions(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const db = c.env.ARCHIVE_DB;
+  if (!db) {
+    return c.json({ status: "error", error: "archive_not_configured" }, 503);
+  }
+
+  const filters = parseFilters(c);
+  if (!filters) {
+    return c.json({ status: "error", error: "invalid_filter" }, 400);
+  }
+
+  const scopeError = checkHostFilter(c, admin, filters);
+  if (scopeError) return scopeError;
+
+  const format = c.req.query("format") || "csv";
+  if (format !== "csv" && format !== "json") {
+    return c.json({ status: "error", error: "invalid_format" }, 400);
+  }
+
+  const items = await searchSubmissions(db, filters, MAX_EXPORT_ROWS);
+  const filename = `submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  c.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+  if (format === "json") {
+    return c.json(items);
+  }
+
+  c.header("Content-Type", "text/csv; charset=utf-8");
+  return c.body(toCsv(items));
+}
+
+/**
+ * GET /admin/submissions/:requestId - Fetch one archived submission.
+ */
+export async function getSubmissionHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const admin = await requireAdmin(c, "read");
+  if (admin instanceof Response) return admin;
+
+  const db = c.env.ARCHIVE_DB;
+  if (!db) {
+    return c.json({ status: "error", error: "archive_not_configured" }, 503);
+  }
+
+  const submission = await getSubmission(db, c.req.param("requestId") || "");
+  if (!submission) {
+    return c.json({ status: "error", error: "not_found" }, 404);
+  }
+
+  if (!canManageHost(admin, submission.host)) {
+    return hostNotAllowed(c, submission.host);
+  }
+
+  return c.json({ status: "ok", submission });
+}
+
+/**
+ * Host-restricted keys must filter by a host they may manage.
+ */
+function checkHostFilter(
+  c: Context<{ Bindings: Env }>,
+  admin: AdminIdentity,
+  filters: SubmissionFilters
+): Response | null {
+  if (!admin.hosts) return null;
+
+  if (!filters.host) {
+    return c.json(
+      { status: "error", error: "host_not_allowed", detail: "host filter is required for this key" },
+      403
+    );
+  }
+
+  return canManageHost(admin, filters.host) ? null : hostNotAllowed(c, filters.host);
+}
+
+/**
+ * Read filters from the query string. Dates accept anything Date can parse
+ * and are normalized to ISO; a bare "to" date covers the whole day.
+ */
+function parseFilters(c: Context<{ Bindings: Env }>): SubmissionFilters | null {
+  const filters: SubmissionFilters = {};
+
+  const host = (c.req.query("host") || "").trim().toLowerCase();
+  if (host) filters.host = host;
+
+  for (const key of ["from", "to"] as const) {
+    const raw = (c.req.query(key) || "").trim();
+    if (!raw) continue;
+
+    const date = new Date(raw);
+    if (isNaN(date.getTime())) return null;
+
+    if (key === "to" && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    filters[key] = date.toISOString();
+  }
+
+  const q = (c.req.query("q") || "").trim();
+  if (q) filters.q = q;
+
+  const status = c.req.query("status");
+  if (status) {
+    if (!DELIVERY_STATES.includes(status as DeliveryState)) return null;
+    filters.status = status as DeliveryState;
+  }
+
+  return filters;
+}
@@ -0,0 +1,358 @@
+import type { Context } from "hono";
+import type { Env } from "../types";
+import {
+  getOriginsConfig,
+  parseEnvOrigins,
+  addOriginPattern,
+  removeOriginPattern,
+} from "./admin";
+import type { MessageEntity } from "../services/telegram";
+import {
+  sendTelegramMessage,
+  getChatMemberStatus,
+  editTelegramMessage,
+  answerCallbackQuery,
+} from "../services/telegram";
+import { countSubmissionsSince } from "../services/archive";
+import { muteHost, unmuteHost, getMutedHosts } from "../services/mute";
+import { addToBlocklist } from "../services/blocklist";
+import { recordAudit } from "../services/audit";
+import { metricsBackend, queryMetrics } from "../services/metrics";
+import {
+  SNOOZE_HOURS,
+  getLead,
+  saveLead,
+  parseLeadCallback,
+  scheduleReminder,
+  leadBotToken,
+} from "../services/leads";
+import { safeEqual } from "../utils/crypto";
+import { escapeHtml } from "../utils/sanitize";
+
+interface TelegramUser {
+  id: number;
+  first_name?: string;
+  username?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  message_thread_id?: number;
+  chat: { id: number; type: string };
+  from?: TelegramUser;
+  text?: string;
+  entities?: MessageEntity[];
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+const HELP_TEXT = [
+  "<b>Contact Relay commands</b>",
+  "/origins — list allowed origins",
+  "/addorigin &lt;pattern&gt; — allow an origin",
+  "/removeorigin &lt;pattern&gt; — remove an origin",
+  "/stats — today's submissions",
+  "/mute &lt;host&gt; [hours] — stop delivering a host's leads",
+  "/unmute &lt;host&gt; — resume delivery",
+  "/muted — list muted hosts",
+].join("\n");
+
+/**
+ * POST /telegram/webhook - Bot commands from authorised chat admins,
+ * and presses of the buttons under lead messages.
+ * Telegram retries non-2xx responses, so anything we don't handle is acknowledged with 200.
+ */
+export async function telegramWebhookHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const env = c.env;
+
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    return c.json({ status: "error", error: "webhook_not_configured" }, 503);
+  }
+
+  const secret = c.req.header("X-Telegram-Bot-Api-Secret-Token") || "";
+  if (!safeEqual(secret, env.TELEGRAM_WEBHOOK_SECRET)) {
+    return c.json({ status: "error", error: "unauthorized" }, 401);
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await c.req.json<TelegramUpdate>();
+  } catch {
+    return c.json({ ok: true });
+  }
+
+  if (update.callback_query) {
+    await handleLeadButton(env, update.callback_query);
+    return c.json({ ok: true });
+  }
+
+  const message = update.message;
+
+  if (!message?.text?.startsWith("/") || !message.from) {
+    return c.json({ ok: true });
+  }
+
+  const chatId = String(message.chat.id);
+
+  // Unknown chats are ignored without a reply
+  if (!adminChatIds(env).includes(chatId)) {
+    return c.json({ ok: true });
+  }
+
+  const reply = (text: string) =>
+    sendTelegramMessage(env.BOT_TOKEN, chatId, text, {
+      message_thread_id: message.message_thread_id,
+    });
+
+  // In groups only chat admins may run commands; a listed private chat is its own admin
+  if (message.chat.type !== "private") {
+    const status = await getChatMemberStatus(env.BOT_TOKEN, chatId, message.from.id);
+    if (status !== "creator" && status !== "administrator") {
+      await reply("Only chat admins can run this command.");
+      return c.json({ ok: true });
+    }
+  }
+
+  const [rawCommand, ...args] = message.text.trim().split(/\s+/);
+  // "/origins@MyRelayBot" → "origins"
+  const command = rawCommand.slice(1).split("@")[0].toLowerCase();
+
+  await reply(await runCommand(env, command, args, `${displayName(message.from)} (Telegram)`));
+
+  return c.json({ ok: true });
+}
+
+async function runCommand(
+  env: Env,
+  command: string,
+  args: string[],
+  actor: string
+): Promise<string> {
+  const audit = (action: string, target: string, change: { before?: unknown; after?: unknown }) =>
+    recordAudit(env, { actor, key_id: null, ip: "", action, target, ...change }).catch((e) =>
+      console.error("audit failed:", e)
+    );
+
+  switch (command) {
+    case "origins": {
+      const config = await getOriginsConfig(env.CONFIG);
+      const dynamic = config?.patterns || [];
+      const fromEnv = parseEnvOrigins(env.ALLOWED_ORIGINS);
+      return [
+        "<b>Dynamic origins</b>",
+        dynamic.length ? dynamic.map((p) => `• ${escapeHtml(p)}`).join("\n") : "—",
+        "<b>From ALLOWED_ORIGINS</b>",
+        fromEnv.length ? fromEnv.map((p) => `• ${escapeHtml(p)}`).join("\n") : "—",
+      ].join("\n");
+    }
+
+    case "addorigin": {
+      const result = await addOriginPattern(env.CONFIG, args[0]);
+      if (!result) return "Usage: /addorigin &lt;pattern&gt;";
+      if (result.added) await audit("origins.add", args[0].toLowerCase(), { after: args[0].toLowerCase() });
+      return result.added
+        ? `Added <code>${escapeHtml(args[0].toLowerCase())}</code>`
+        : `<code>${escapeHtml(args[0].toLowerCase())}</code> is already allowed`;
+    }
+
+    case "removeorigin": {
+      if (!args[0]) return "Usage: /removeorigin &lt;pattern&gt;";
+      const remaining = await removeOriginPattern(env.CONFIG, args[0]);
+      if (remaining) await audit("origins.remove", args[0].toLowerCase(), { before: args[0].toLowerCase() });
+      return remaining
+        ? `Removed <code>${escapeHtml(args[0].toLowerCase())}</code>`
+        : `<code>${escapeHtml(args[0].toLowerCase())}</code> is not a dynamic origin`;
+    }
+
+    case "stats":
+      return statsText(env);
+
+    case "mute": {
+      const host = (args[0] || "").toLowerCase();
+      const hours = args[1] ? Number(args[1]) : undefined;
+      if (!host || (hours !== undefined && !(hours > 0))) {
+        return "Usage: /mute &lt;host&gt; [hours]";
+      }
+      const until = await muteHost(env.CONFIG, host, hours);
+      await audit("mute.add", host, { after: until || "indefinitely" });
+      return `Muted <code>${escapeHtml(host)}</code>${until ? ` until ${formatUtc(until)}` : ""}`;
+    }
+
+    case "unmute": {
+      const host = (args[0] || "").toLowerCase();
+      if (!host) return "Usage: /unmute &lt;host&gt;";
+      if (!(await unmuteHost(env.CONFIG, host))) {
+        return `<code>${escapeHtml(host)}</code> is not muted`;
+      }
+      await audit("mute.remove", host, {});
+      return `Unmuted <code>${escapeHtml(host)}</code>`;
+    }
+
+    case "muted": {
+      const muted = Object.entries(await getMutedHosts(env.CONFIG));
+      if (muted.length === 0) return "No muted hosts";
+      return muted
+        .map(([host, until]) => `• ${escapeHtml(host)}${until ? ` (until ${formatUtc(until)})` : ""}`)
+        .join("\n");
+    }
+
+    case "start":
+    case "help":
+    default:
+      return HELP_TEXT;
+  }
+}
+
+/**
+ * Today's counts per host: outcome metrics (including rejections) when
+ * they can be queried, otherwise delivery states from the archive.
+ */
+async function statsText(env: Env): Promise<string> {
+  const since = new Date().toISOString().slice(0, 10) + "T00:00:00.000Z";
+  let rows: { host: string; label: string; count: number }[];
+
+  if (metricsBackend(env)) {
+    rows = (await queryMetrics(env, new Date(since), new Date())).map((row) => ({
+      host: row.host,
+      label: row.outcome,
+      count: row.count,
+    }));
+  } else if (env.ARCHIVE_DB) {
+    rows = (await countSubmissionsSince(env.ARCHIVE_DB, since)).map((row) => ({
+      host: row.host,
+      label: row.delivery_status,
+      count: row.count,
+    }));
+  } else {
+    return "Stats need metrics (METRICS_COUNTER or METRICS) or the submission archive (ARCHIVE_DB).";
+  }
+
+  if (rows.length === 0) return "No submissions today";
+
+  const byHost = new Map<string, string[]>();
+  let total = 0;
+  for (const row of rows.sort((a, b) => b.count - a.count)) {
+    total += row.count;
+    const parts = byHost.get(row.host) || [];
+    parts.push(`${row.label} ${row.count}`);
+    byHost.set(row.host, parts);
+  }
+
+  return [
+    `<b>Today (UTC): ${total} submissions</b>`,
+    ...Array.from(byHost, ([host, parts]) => `• ${escapeHtml(host)}: ${parts.join(", ")}`),
+  ].join("\n");
+}
+
+/**
+ * Take / Spam / Snooze under a lead message. Anyone who can see the
+ * message may press them; state is shared across every chat the lead went to.
+ */
+async function handleLeadButton(env: Env, query: TelegramCallbackQuery): Promise<void> {
+  const parsed = parseLeadCallback(query.data || "");
+  const message = query.message;
+
+  if (!parsed || !message) {
+    await answerCallbackQuery(env.BOT_TOKEN, query.id);
+    return;
+  }
+
+  const lead = await getLead(env.CONFIG, parsed.id);
+  if (!lead) {
+    await answerCallbackQuery(env.BOT_TOKEN, query.id, "This lead has expired");
+    return;
+  }
+
+  // Answer and edit with the bot that posted the lead in this chat
+  const chatId = String(message.chat.id);
+  const botToken = await leadBotToken(env, lead, chatId);
+
+  if (lead.status !== "open") {
+    const what = lead.status === "taken" ? "Already taken" : "Already marked as spam";
+    await answerCallbackQuery(botToken, query.id, `${what} by ${lead.handled_by}`);
+    return;
+  }
+  const who = displayName(query.from);
+  const now = new Date().toISOString();
+
+  if (parsed.action === "snooze") {
+    await scheduleReminder(env.CONFIG, parsed.id, {
+      chat_id: chatId,
+      message_id: message.message_id,
+      message_thread_id: message.message_thread_id,
+    });
+    await answerCallbackQuery(
+      botToken,
+      query.id,
+      `I'll remind you in ${SNOOZE_HOURS}h if nobody takes it`
+    );
+    return;
+  }
+
+  let footer: string;
+  let toast: string;
+
+  if (parsed.action === "take") {
+    lead.status = "taken";
+    footer = `✅ Taken by ${who} · ${formatUtc(now)}`;
+    toast = "The lead is yours";
+  } else {
+    lead.status = "spam";
+    const reason = `spam report by ${who}`;
+    await addToBlocklist(env.CONFIG, [
+      { type: "email", value: lead.email, reason, host: lead.host },
+      ...(lead.ip ? [{ type: "ip" as const, value: lead.ip, reason, host: lead.host }] : []),
+    ]);
+    footer = `🚫 Spam, reported by ${who} · ${formatUtc(now)}`;
+    toast = "Sender blocked";
+  }
+
+  lead.handled_by = who;
+  lead.handled_at = now;
+  await saveLead(env.CONFIG, parsed.id, lead);
+
+  // The update carries plain text plus entities, so the edit reuses them
+  // instead of HTML; appending a footer leaves the offsets valid.
+  // Omitting reply_markup removes the buttons.
+  await editTelegramMessage(
+    botToken,
+    chatId,
+    message.message_id,
+    `${message.text || ""}\n\n${footer}`,
+    { entities: message.entities || [] }
+  );
+  await answerCallbackQuery(botToken, query.id, toast);
+}
+
+function displayName(user: TelegramUser): string {
+  return user.username ? `@${user.username}` : user.first_name || String(user.id);
+}
+
+/**
+ * "2024-12-01T09:30:00.000Z" → "2024-12-01 09:30 UTC"
+ */
+function formatUtc(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Chats whose admins may run commands: the default chat plus TELEGRAM_ADMIN_CHAT_IDS.
+ */
+function adminChatIds(env: Env): string[] {
+  return [env.TG_DEFAULT_CHAT_ID, ...(env.TELEGRAM_ADMIN_CHAT_IDS || "").split(",")]
+    .map((id) => (id || "").trim())
+    .filter((id) => id.length > 0);
+}
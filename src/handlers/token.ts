@@ -0,0 +1,50 @@
+import type { Context } from "hono";
+import type { ApiResponse, Env } from "../types";
+import { normalizeHost, matchOrigin, getAllowedOrigins } from "../utils/origin";
+import { getRoutingMap, resolveRoute } from "../utils/routing";
+import { DEFAULT_MAX_AGE, issueFormToken } from "../services/form-token";
+
+/**
+ * GET /token - Issue a signed, single-use form token for the calling origin.
+ * Send it back as `form_token` with the submission.
+ */
+export async function tokenHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const env = c.env;
+
+  if (!env.FORM_TOKEN_SECRET) {
+    return c.json<ApiResponse>(
+      { status: "error", error: "form_tokens_not_configured" },
+      503
+    );
+  }
+
+  const origin = c.req.header("Origin") || "";
+  const host = normalizeHost(origin);
+  const allowedOrigins = await getAllowedOrigins(env.CONFIG, env.ALLOWED_ORIGINS);
+
+  if (!matchOrigin(host, allowedOrigins)) {
+    return c.json<ApiResponse>(
+      {
+        status: "error",
+        error: "origin_not_allowed",
+        detail: `host "${host}" does not match allowed patterns`,
+      },
+      403
+    );
+  }
+
+  const routing = await getRoutingMap(env.CONFIG, env.ROUTING_JSON);
+  const policy = resolveRoute(host, routing)?.form_token;
+
+  return c.json(
+    {
+      status: "ok",
+      token: await issueFormToken(env.FORM_TOKEN_SECRET, host),
+      expires_in: policy?.max_age ?? DEFAULT_MAX_AGE,
+    },
+    200,
+    { "Cache-Control": "no-store" }
+  );
+}
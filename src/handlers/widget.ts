@@ -0,0 +1,91 @@
+import type { Context } from "hono";
+import type { ApiResponse, Env } from "../types";
+import { normalizeHost, matchOrigin, getAllowedOrigins } from "../utils/origin";
+import { getRoutingMap, resolveRoute } from "../utils/routing";
+import { getFormSchema } from "../utils/schema";
+import { buildWidgetFields, getWidgetConfig } from "../utils/widget";
+import { resolveCaptcha } from "../services/captcha";
+import { WIDGET_SCRIPT, WIDGET_VERSION } from "../widget/script";
+
+/**
+ * GET /widget.js - The embeddable form script, always the current version.
+ * GET /widget/v<N>.js - Same script, cached for a year; older versions
+ * redirect to /widget.js.
+ */
+export async function widgetScriptHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const file = c.req.param("file");
+
+  if (file !== undefined) {
+    if (!/^v\d+\.js$/.test(file)) {
+      return c.json({ status: "error", error: "not_found" }, 404);
+    }
+    if (file !== `v${WIDGET_VERSION}.js`) {
+      return c.redirect("/widget.js", 302);
+    }
+  }
+
+  return c.body(WIDGET_SCRIPT, 200, {
+    "Content-Type": "application/javascript; charset=utf-8",
+    "Cache-Control":
+      file === undefined ? "public, max-age=300" : "public, max-age=31536000, immutable",
+    "X-Widget-Version": WIDGET_VERSION,
+  });
+}
+
+/**
+ * GET /widget/config - Form settings for the calling origin: fields,
+ * texts, theme, and which captcha and form token checks to satisfy.
+ */
+export async function widgetConfigHandler(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const env = c.env;
+  const origin = c.req.header("Origin") || "";
+  const host = normalizeHost(origin);
+  const allowedOrigins = await getAllowedOrigins(env.CONFIG, env.ALLOWED_ORIGINS);
+
+  if (!matchOrigin(host, allowedOrigins)) {
+    return c.json<ApiResponse>(
+      {
+        status: "error",
+        error: "origin_not_allowed",
+        detail: `host "${host}" does not match allowed patterns`,
+      },
+      403
+    );
+  }
+
+  const [widget, schema, routing] = await Promise.all([
+    getWidgetConfig(env.CONFIG, host),
+    getFormSchema(env.CONFIG, host),
+    getRoutingMap(env.CONFIG, env.ROUTING_JSON),
+  ]);
+  const route = resolveRoute(host, routing);
+  const captcha = resolveCaptcha(route, env);
+
+  return c.json(
+    {
+      status: "ok",
+      version: WIDGET_VERSION,
+      ...(widget?.title ? { title: widget.title } : {}),
+      fields: buildWidgetFields(widget, schema, route?.max_lengths),
+      ...(widget?.submit_label ? { submit_label: widget.submit_label } : {}),
+      ...(widget?.success_message ? { success_message: widget.success_message } : {}),
+      ...(widget?.messages ? { messages: widget.messages } : {}),
+      ...(widget?.theme ? { theme: widget.theme } : {}),
+      // Only the public parts of the captcha settings
+      captcha: captcha?.site_key
+        ? {
+            provider: captcha.provider,
+            site_key: captcha.site_key,
+            ...(captcha.action ? { action: captcha.action } : {}),
+          }
+        : null,
+      form_token: !!env.FORM_TOKEN_SECRET,
+    },
+    200,
+    { "Cache-Control": "no-store" }
+  );
+}
@@ -1,14 +1,54 @@
 import { Hono } from "hono";
-import type { Env } from "./types";
+import type { Env, OutboxMessage } from "./types";
 import { corsMiddleware } from "./utils/cors";
 import { sendHandler } from "./handlers/send";
+import { submitHandler } from "./handlers/api";
 import { healthHandler } from "./handlers/health";
+import { tokenHandler } from "./handlers/token";
+import { widgetScriptHandler, widgetConfigHandler } from "./handlers/widget";
 import {
   listOrigins,
   replaceOrigins,
   addOrigin,
   removeOrigin,
+  listRoutes,
+  replaceRoutes,
+  upsertRoute,
+  removeRoute,
+  listSchemas,
+  upsertSchema,
+  removeSchema,
+  listSpamPolicies,
+  upsertSpamPolicy,
+  removeSpamPolicy,
+  listWidgets,
+  upsertWidget,
+  removeWidget,
+  previewTemplate,
 } from "./handlers/admin";
+import {
+  listDeadLettersHandler,
+  replayDeadLetter,
+  removeDeadLetter,
+} from "./handlers/dead-letters";
+import {
+  listSubmissions,
+  exportSubmissions,
+  getSubmissionHandler,
+} from "./handlers/submissions";
+import {
+  listBlocklist,
+  upsertBlocklistEntry,
+  removeBlocklistEntry,
+} from "./handlers/blocklist";
+import { listAdminKeys, createAdminKey, removeAdminKey } from "./handlers/admin-keys";
+import { listApiKeys, createApiKey, removeApiKey } from "./handlers/api-keys";
+import { listAudit } from "./handlers/audit";
+import { statsHandler } from "./handlers/stats";
+import { telegramWebhookHandler } from "./handlers/telegram-webhook";
+import { processOutboxBatch } from "./services/outbox";
+import { sendDueReminders } from "./services/leads";
+import { releaseHeldSubmissions } from "./services/digest";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -17,15 +57,67 @@ app.use("*", corsMiddleware);
 
 // Public routes
 app.post("/send", sendHandler);
+app.get("/token", tokenHandler);
+app.get("/widget.js", widgetScriptHandler);
+app.get("/widget/config", widgetConfigHandler);
+app.get("/widget/:file", widgetScriptHandler);
 app.get("/health", healthHandler);
+app.post("/telegram/webhook", telegramWebhookHandler);
+
+// Server-to-server API (tenant API keys)
+app.post("/api/v1/submit", submitHandler);
 
 // Admin routes
 app.get("/admin/origins", listOrigins);
 app.put("/admin/origins", replaceOrigins);
 app.post("/admin/origins", addOrigin);
 app.delete("/admin/origins/:pattern", removeOrigin);
+app.get("/admin/routes", listRoutes);
+app.put("/admin/routes", replaceRoutes);
+app.post("/admin/routes", upsertRoute);
+app.delete("/admin/routes/:host", removeRoute);
+app.get("/admin/schemas", listSchemas);
+app.post("/admin/schemas", upsertSchema);
+app.delete("/admin/schemas/:host", removeSchema);
+app.get("/admin/spam-rules", listSpamPolicies);
+app.post("/admin/spam-rules", upsertSpamPolicy);
+app.delete("/admin/spam-rules/:host", removeSpamPolicy);
+app.get("/admin/widgets", listWidgets);
+app.post("/admin/widgets", upsertWidget);
+app.delete("/admin/widgets/:host", removeWidget);
+app.post("/admin/templates/preview", previewTemplate);
+app.get("/admin/dead-letters", listDeadLettersHandler);
+app.post("/admin/dead-letters/:id/replay", replayDeadLetter);
+app.delete("/admin/dead-letters/:id", removeDeadLetter);
+app.get("/admin/submissions", listSubmissions);
+app.get("/admin/submissions/export", exportSubmissions);
+app.get("/admin/submissions/:requestId", getSubmissionHandler);
+app.get("/admin/blocklist", listBlocklist);
+app.post("/admin/blocklist", upsertBlocklistEntry);
+app.delete("/admin/blocklist/:value", removeBlocklistEntry);
+app.get("/admin/keys", listAdminKeys);
+app.post("/admin/keys", createAdminKey);
+app.delete("/admin/keys/:id", removeAdminKey);
+app.get("/admin/api-keys", listApiKeys);
+app.post("/admin/api-keys", createApiKey);
+app.delete("/admin/api-keys/:id", removeApiKey);
+app.get("/admin/audit", listAudit);
+app.get("/admin/stats", statsHandler);
 
 // 404 handler
 app.notFound((c) => c.json({ status: "error", error: "not_found" }, 404));
 
-export default app;
+export default {
+  fetch: app.fetch,
+  // Outbox consumer (DELIVERY_MODE = "outbox")
+  async queue(batch: MessageBatch<OutboxMessage>, env: Env): Promise<void> {
+    await processOutboxBatch(batch, env);
+  },
+  // Lead reminders ("⏰" button), digests and submissions held for quiet hours
+  async scheduled(_controller: ScheduledController, env: Env): Promise<void> {
+    await sendDueReminders(env);
+    await releaseHeldSubmissions(env);
+  },
+} satisfies ExportedHandler<Env, OutboxMessage>;
+export { RateLimiter } from "./durable-objects/rate-limiter";
+export { MetricsCounter } from "./durable-objects/metrics-counter";
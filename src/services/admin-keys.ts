@@ -0,0 +1,167 @@
+import type { AdminIdentity, AdminKeyRecord, AdminKeysConfig, AdminScope } from "../types";
+import { randomHex, safeEqual, sha256Hex } from "../utils/crypto";
+import { matchPattern } from "../utils/origin";
+import { normalizeRouteHost } from "../utils/routing";
+
+const ADMIN_KEYS_KEY = "admin_keys";
+const MAX_KEYS = 100;
+
+export const ADMIN_SCOPES: AdminScope[] = ["read", "origins:write", "routes:write", "admin"];
+
+export const ROOT_IDENTITY: AdminIdentity = {
+  id: null,
+  label: "root",
+  scopes: ["admin"],
+  hosts: null,
+};
+
+/**
+ * Resolve a presented key to an identity, or null.
+ * Every stored hash is compared in constant time, so the response time
+ * doesn't reveal how much of a key matched or which key it was.
+ */
+export async function authenticateAdminKey(
+  kv: KVNamespace,
+  rootKey: string | undefined,
+  providedKey: string
+): Promise<AdminIdentity | null> {
+  const providedHash = await sha256Hex(providedKey);
+  let identity: AdminIdentity | null = null;
+
+  if (rootKey && safeEqual(providedHash, await sha256Hex(rootKey))) {
+    identity = ROOT_IDENTITY;
+  }
+
+  for (const record of (await getAdminKeysConfig(kv)).keys) {
+    if (safeEqual(providedHash, record.hash) && !identity) {
+      identity = {
+        id: record.id,
+        label: record.label,
+        scopes: record.scopes,
+        hosts: record.hosts && record.hosts.length > 0 ? record.hosts : null,
+      };
+    }
+  }
+
+  return identity;
+}
+
+/**
+ * Write scopes include read; "admin" includes every scope.
+ */
+export function hasScope(identity: AdminIdentity, scope: AdminScope): boolean {
+  if (identity.scopes.includes("admin")) return true;
+  if (scope === "read") return identity.scopes.length > 0;
+  return identity.scopes.includes(scope);
+}
+
+/**
+ * Check a host or host pattern against the key's host restriction.
+ * "*.shop.client.com" is covered by "*.client.com".
+ */
+export function canManageHost(identity: AdminIdentity, host: string): boolean {
+  if (!identity.hosts) return true;
+  return identity.hosts.some((pattern) => pattern === host || matchPattern(host, pattern));
+}
+
+/**
+ * Keep only the entries of a host-keyed map the key may see.
+ */
+export function filterHosts<T>(identity: AdminIdentity, entries: Record<string, T>): Record<string, T> {
+  if (!identity.hosts) return entries;
+  return Object.fromEntries(
+    Object.entries(entries).filter(([host]) => canManageHost(identity, host))
+  );
+}
+
+/**
+ * Validate a key request. Returns an error description for bad input.
+ */
+export function normalizeKeyRequest(
+  raw: unknown
+): { label: string; scopes: AdminScope[]; hosts?: string[] } | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "body must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const label = typeof input.label === "string" ? input.label.trim().slice(0, 100) : "";
+  if (!label) return "label is required";
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return "scopes must be a non-empty array";
+  }
+  const invalid = input.scopes.find((s) => !ADMIN_SCOPES.includes(s as AdminScope));
+  if (invalid !== undefined) return `unknown scope "${invalid}"`;
+  const scopes = Array.from(new Set(input.scopes as AdminScope[]));
+
+  if (input.hosts === undefined) return { label, scopes };
+
+  if (!Array.isArray(input.hosts)) return "hosts must be an array of host patterns";
+  const hosts: string[] = [];
+  for (const raw of input.hosts) {
+    const host = typeof raw === "string" ? normalizeRouteHost(raw) : "";
+    if (!host) return `invalid host "${raw}"`;
+    hosts.push(host);
+  }
+
+  if (hosts.length > 0 && scopes.includes("admin")) {
+    return `a host-restricted key can't have the "admin" scope`;
+  }
+
+  return hosts.length > 0 ? { label, scopes, hosts } : { label, scopes };
+}
+
+/**
+ * Create a key. The plaintext is returned once and never stored.
+ */
+export async function issueAdminKey(
+  kv: KVNamespace,
+  request: { label: string; scopes: AdminScope[]; hosts?: string[] }
+): Promise<{ key: string; record: AdminKeyRecord } | null> {
+  const config = await getAdminKeysConfig(kv);
+  if (config.keys.length >= MAX_KEYS) return null;
+
+  const key = `cr_${randomHex(24)}`;
+  const record: AdminKeyRecord = {
+    id: randomHex(6),
+    label: request.label,
+    prefix: key.slice(0, 9),
+    hash: await sha256Hex(key),
+    scopes: request.scopes,
+    ...(request.hosts ? { hosts: request.hosts } : {}),
+    created_at: new Date().toISOString(),
+  };
+
+  config.keys.push(record);
+  config.updatedAt = record.created_at;
+  await kv.put(ADMIN_KEYS_KEY, JSON.stringify(config));
+
+  return { key, record };
+}
+
+/**
+ * Revoke a key by ID. Returns the removed record, or null if not found.
+ */
+export async function revokeAdminKey(
+  kv: KVNamespace,
+  id: string
+): Promise<AdminKeyRecord | null> {
+  const config = await getAdminKeysConfig(kv);
+  const record = config.keys.find((k) => k.id === id);
+  if (!record) return null;
+
+  config.keys = config.keys.filter((k) => k.id !== id);
+  config.updatedAt = new Date().toISOString();
+  await kv.put(ADMIN_KEYS_KEY, JSON.stringify(config));
+
+  return record;
+}
+
+export async function getAdminKeysConfig(kv: KVNamespace): Promise<AdminKeysConfig> {
+  try {
+    const raw = await kv.get(ADMIN_KEYS_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch {
+    // Ignore KV/parse errors
+  }
+  return { keys: [], updatedAt: "" };
+}
@@ -0,0 +1,160 @@
+import type { ApiKeyRecord, ApiKeysConfig } from "../types";
+import { hmacHex, randomHex, safeEqual, sha256Hex } from "../utils/crypto";
+import { matchPattern } from "../utils/origin";
+import { normalizeRouteHost } from "../utils/routing";
+
+const API_KEYS_KEY = "api_keys";
+const MAX_KEYS = 200;
+
+/** Signed requests older or newer than this are refused (replay window) */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Request headers of an HMAC-signed submission */
+export interface SignedRequest {
+  key_id: string;
+  /** Unix seconds, as sent in X-Relay-Timestamp */
+  timestamp: string;
+  /** "sha256=<hex>" */
+  signature: string;
+  body: string;
+}
+
+/**
+ * Resolve a bearer key to its record, or null.
+ * Every stored hash is compared in constant time, as for admin keys.
+ */
+export async function authenticateApiKey(
+  kv: KVNamespace,
+  providedKey: string
+): Promise<ApiKeyRecord | null> {
+  const providedHash = await sha256Hex(providedKey);
+  let match: ApiKeyRecord | null = null;
+
+  for (const record of (await getApiKeysConfig(kv)).keys) {
+    if (safeEqual(providedHash, record.hash) && !match) match = record;
+  }
+
+  return match;
+}
+
+/**
+ * Verify an HMAC-SHA256 signature over "<timestamp>.<raw body>" made
+ * with the key's signing secret. Returns the key record, or the reason
+ * the request was refused.
+ */
+export async function verifySignedRequest(
+  kv: KVNamespace,
+  request: SignedRequest,
+  now = Date.now()
+): Promise<ApiKeyRecord | "unknown_key" | "expired" | "bad_signature"> {
+  const record = (await getApiKeysConfig(kv)).keys.find((k) => k.id === request.key_id);
+  if (!record) return "unknown_key";
+
+  const timestamp = Number(request.timestamp);
+  if (
+    !/^\d+$/.test(request.timestamp) ||
+    Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return "expired";
+  }
+
+  const expected = await hmacHex(record.signing_secret, `${request.timestamp}.${request.body}`);
+  const provided = request.signature.replace(/^sha256=/, "").toLowerCase();
+  return safeEqual(provided, expected) ? record : "bad_signature";
+}
+
+/**
+ * Mark a verified signature as used. Returns false if it was used before,
+ * so a captured request can't be replayed within the tolerance window.
+ * KV is eventually consistent, so two uses within a few seconds from
+ * different locations may both pass.
+ */
+export async function consumeSignature(
+  kv: KVNamespace,
+  keyId: string,
+  signature: string
+): Promise<boolean> {
+  const seenKey = `api_signature:${keyId}:${signature.replace(/^sha256=/, "").toLowerCase()}`;
+  if (await kv.get(seenKey)) return false;
+
+  // A timestamp up to the tolerance ahead stays valid for twice as long
+  await kv.put(seenKey, "1", { expirationTtl: 2 * SIGNATURE_TOLERANCE_SECONDS });
+  return true;
+}
+
+/**
+ * Check a submission host against the key's host or host pattern.
+ */
+export function keyCoversHost(record: ApiKeyRecord, host: string): boolean {
+  return record.host === host || matchPattern(host, record.host);
+}
+
+/**
+ * Validate a key request. Returns an error description for bad input.
+ */
+export function normalizeApiKeyRequest(raw: unknown): { label: string; host: string } | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "body must be an object";
+  const input = raw as Record<string, unknown>;
+
+  const label = typeof input.label === "string" ? input.label.trim().slice(0, 100) : "";
+  if (!label) return "label is required";
+
+  const host = typeof input.host === "string" ? normalizeRouteHost(input.host) : "";
+  if (!host || !/^[a-z0-9*.-]+$/.test(host)) return "host must be a host or host pattern";
+
+  return { label, host };
+}
+
+/**
+ * Create a key and its signing secret. Both are returned once; only the
+ * key's hash is stored.
+ */
+export async function issueApiKey(
+  kv: KVNamespace,
+  request: { label: string; host: string }
+): Promise<{ key: string; record: ApiKeyRecord } | null> {
+  const config = await getApiKeysConfig(kv);
+  if (config.keys.length >= MAX_KEYS) return null;
+
+  const key = `crk_${randomHex(24)}`;
+  const record: ApiKeyRecord = {
+    id: randomHex(6),
+    label: request.label,
+    prefix: key.slice(0, 10),
+    hash: await sha256Hex(key),
+    signing_secret: `crs_${randomHex(32)}`,
+    host: request.host,
+    created_at: new Date().toISOString(),
+  };
+
+  config.keys.push(record);
+  config.updatedAt = record.created_at;
+  await kv.put(API_KEYS_KEY, JSON.stringify(config));
+
+  return { key, record };
+}
+
+/**
+ * Revoke a key by ID. Returns the removed record, or null if not found.
+ */
+export async function revokeApiKey(kv: KVNamespace, id: string): Promise<ApiKeyRecord | null> {
+  const config = await getApiKeysConfig(kv);
+  const record = config.keys.find((k) => k.id === id);
+  if (!record) return null;
+
+  config.keys = config.keys.filter((k) => k.id !== id);
+  config.updatedAt = new Date().toISOString();
+  await kv.put(API_KEYS_KEY, JSON.stringify(config));
+
+  return record;
+}
+
+export async function getApiKeysConfig(kv: KVNamespace): Promise<ApiKeysConfig> {
+  try {
+    const raw = await kv.get(API_KEYS_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch {
+    // Ignore KV/parse errors
+  }
+  return { keys: [], updatedAt: "" };
+}
@@ -0,0 +1,281 @@
+import type {
+  ArchivedSubmission,
+  DeliveryState,
+  DeliveryStatus,
+  Submission,
+  SubmissionFilters,
+} from "../types";
+
+const COLUMNS = [
+  "id",
+  "request_id",
+  "host",
+  "name",
+  "email",
+  "telegram",
+  "message",
+  "fields",
+  "attachments",
+  "delivery_status",
+  "deliveries",
+  "created_at",
+] as const;
+
+interface SubmissionRow {
+  id: number;
+  request_id: string;
+  host: string;
+  name: string;
+  email: string;
+  telegram: string;
+  message: string;
+  fields: string;
+  attachments: string;
+  delivery_status: DeliveryState;
+  deliveries: string;
+  created_at: string;
+}
+
+/**
+ * Overall state from per-destination outcomes.
+ */
+export function deliveryState(deliveries: DeliveryStatus[]): DeliveryState {
+  const ok = deliveries.filter((d) => d.ok).length;
+  if (ok === deliveries.length) return "delivered";
+  return ok > 0 ? "partial" : "failed";
+}
+
+/**
+ * Store an accepted submission. A repeated request_id is ignored.
+ */
+export async function archiveSubmission(
+  db: D1Database,
+  submission: Submission,
+  status: DeliveryState,
+  deliveries: DeliveryStatus[]
+): Promise<void> {
+  const attachments = (submission.attachments || []).map((file) => ({
+    name: file.name,
+    type: file.type,
+    size: file.size,
+  }));
+
+  await db
+    .prepare(
+      `INSERT OR IGNORE INTO submissions
+        (request_id, host, name, email, telegram, message, fields, attachments,
+         delivery_status, deliveries, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      submission.request_id,
+      submission.host,
+      submission.name,
+      submission.email,
+      submission.telegram,
+      submission.message,
+      JSON.stringify(submission.fields || []),
+      JSON.stringify(attachments),
+      status,
+      JSON.stringify(deliveries),
+      submission.submitted_at
+    )
+    .run();
+}
+
+/**
+ * Record one destination's outcome for a queued submission and
+ * recompute the overall status once every destination has reported.
+ */
+export async function recordDeliveryOutcome(
+  db: D1Database,
+  requestId: string,
+  outcome: DeliveryStatus,
+  totalDestinations: number
+): Promise<void> {
+  const row = await db
+    .prepare("SELECT deliveries FROM submissions WHERE request_id = ?")
+    .bind(requestId)
+    .first<{ deliveries: string }>();
+  if (!row) return;
+
+  const deliveries = parseJson<DeliveryStatus[]>(row.deliveries, []).filter(
+    (d) => d.destination !== outcome.destination
+  );
+  deliveries.push(outcome);
+
+  const status: DeliveryState =
+    deliveries.length >= totalDestinations ? deliveryState(deliveries) : "queued";
+
+  await db
+    .prepare("UPDATE submissions SET deliveries = ?, delivery_status = ? WHERE request_id = ?")
+    .bind(JSON.stringify(deliveries), status, requestId)
+    .run();
+}
+
+/**
+ * Search the archive, newest first.
+ * Pagination is keyset-based: pass the last `id` of a page as `beforeId`.
+ */
+export async function searchSubmissions(
+  db: D1Database,
+  filters: SubmissionFilters,
+  limit: number,
+  beforeId?: number
+): Promise<ArchivedSubmission[]> {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.host) {
+    if (filters.host.includes("*")) {
+      where.push("s.host LIKE ? ESCAPE '\\'");
+      params.push(filters.host.replace(/[\\%_]/g, "\\$&").replace(/\*/g, "%"));
+    } else {
+      where.push("s.host = ?");
+      params.push(filters.host);
+    }
+  }
+
+  if (filters.from) {
+    where.push("s.created_at >= ?");
+    params.push(filters.from);
+  }
+
+  if (filters.to) {
+    where.push("s.created_at <= ?");
+    params.push(filters.to);
+  }
+
+  if (filters.status) {
+    where.push("s.delivery_status = ?");
+    params.push(filters.status);
+  }
+
+  const match = ftsQuery(filters.q || "");
+  if (match) {
+    where.push("s.id IN (SELECT rowid FROM submissions_fts WHERE submissions_fts MATCH ?)");
+    params.push(match);
+  }
+
+  if (beforeId) {
+    where.push("s.id < ?");
+    params.push(beforeId);
+  }
+
+  const sql =
+    `SELECT ${COLUMNS.map((c) => `s.${c}`).join(", ")} FROM submissions s` +
+    (where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "") +
+    " ORDER BY s.id DESC LIMIT ?";
+  params.push(limit);
+
+  const { results } = await db.prepare(sql).bind(...params).all<SubmissionRow>();
+  return results.map(decodeRow);
+}
+
+/**
+ * Fetch a single archived submission by request ID.
+ */
+export async function getSubmission(
+  db: D1Database,
+  requestId: string
+): Promise<ArchivedSubmission | null> {
+  const row = await db
+    .prepare(`SELECT ${COLUMNS.join(", ")} FROM submissions WHERE request_id = ?`)
+    .bind(requestId)
+    .first<SubmissionRow>();
+  return row ? decodeRow(row) : null;
+}
+
+/**
+ * Count submissions since a point in time, grouped by host and status.
+ */
+export async function countSubmissionsSince(
+  db: D1Database,
+  since: string
+): Promise<{ host: string; delivery_status: DeliveryState; count: number }[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT host, delivery_status, COUNT(*) AS count FROM submissions
+       WHERE created_at >= ? GROUP BY host, delivery_status ORDER BY count DESC`
+    )
+    .bind(since)
+    .all<{ host: string; delivery_status: DeliveryState; count: number }>();
+  return results;
+}
+
+/**
+ * Render submissions as CSV (RFC 4180). Extra fields are flattened
+ * into one column per field name.
+ */
+export function toCsv(items: ArchivedSubmission[]): string {
+  const extraNames = Array.from(
+    new Set(items.flatMap((item) => item.fields.map((f) => f.name)))
+  );
+
+  const header = [
+    "request_id",
+    "created_at",
+    "host",
+    "name",
+    "email",
+    "telegram",
+    "message",
+    ...extraNames,
+    "attachments",
+    "delivery_status",
+  ];
+
+  const rows = items.map((item) => {
+    const extras = Object.fromEntries(item.fields.map((f) => [f.name, f.value]));
+    return [
+      item.request_id,
+      item.created_at,
+      item.host,
+      item.name,
+      item.email,
+      item.telegram,
+      item.message,
+      ...extraNames.map((name) => extras[name] || ""),
+      item.attachments.map((a) => a.name).join("; "),
+      item.delivery_status,
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function csvCell(value: string): string {
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheets
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word becomes a quoted
+ * term, so user input can't inject FTS syntax.
+ */
+function ftsQuery(q: string): string {
+  return q
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .slice(0, 10)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(" ");
+}
+
+function decodeRow(row: SubmissionRow): ArchivedSubmission {
+  return {
+    ...row,
+    fields: parseJson(row.fields, []),
+    attachments: parseJson(row.attachments, []),
+    deliveries: parseJson(row.deliveries, []),
+  };
+}
+
+function parseJson<T>(raw: string, fallback: T): T {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,63 @@
+import type { AuditEntry, Env } from "../types";
+import { sendTelegramMessage } from "./telegram";
+import { randomHex } from "../utils/crypto";
+import { escapeHtml } from "../utils/sanitize";
+
+const AUDIT_PREFIX = "audit:";
+const AUDIT_TTL = 60 * 60 * 24 * 365; // 1 year
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+/**
+ * Store an audit entry and notify AUDIT_CHAT_ID if set.
+ * Keys sort newest first: the timestamp part counts down.
+ */
+export async function recordAudit(
+  env: Env,
+  entry: Omit<AuditEntry, "id" | "at">
+): Promise<void> {
+  const now = Date.now();
+  const id = `${String(MAX_TIMESTAMP - now).padStart(13, "0")}-${randomHex(4)}`;
+  const full: AuditEntry = { id, at: new Date(now).toISOString(), ...entry };
+
+  await env.CONFIG.put(`${AUDIT_PREFIX}${id}`, JSON.stringify(full), {
+    expirationTtl: AUDIT_TTL,
+  });
+
+  if (env.AUDIT_CHAT_ID && env.BOT_TOKEN) {
+    await sendTelegramMessage(env.BOT_TOKEN, env.AUDIT_CHAT_ID, auditMessage(full));
+  }
+}
+
+/**
+ * List audit entries, newest first, one page at a time.
+ */
+export async function listAuditEntries(
+  kv: KVNamespace,
+  cursor?: string,
+  limit = 50
+): Promise<{ items: AuditEntry[]; cursor: string | null }> {
+  const page = await kv.list({ prefix: AUDIT_PREFIX, cursor, limit });
+
+  const items: AuditEntry[] = [];
+  for (const key of page.keys) {
+    const raw = await kv.get(key.name);
+    if (!raw) continue;
+    try {
+      items.push(JSON.parse(raw));
+    } catch {
+      // Skip corrupt entries
+    }
+  }
+
+  return { items, cursor: page.list_complete ? null : page.cursor };
+}
+
+/**
+ * Short notice for the ops chat; the full diff stays in /admin/audit.
+ */
+function auditMessage(entry: AuditEntry): string {
+  return [
+    `🛠 <b>${escapeHtml(entry.action)}</b>${entry.target ? ` <code>${escapeHtml(entry.target)}</code>` : ""}`,
+    `by ${escapeHtml(entry.actor)}${entry.ip ? ` from ${escapeHtml(entry.ip)}` : ""}`,
+  ].join("\n");
+}
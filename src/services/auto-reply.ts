@@ -0,0 +1,45 @@
+import type { AutoReplyConfig, Env, SendResult, Submission } from "../types";
+import { resolveMailProvider } from "./mail";
+import { checkRateLimits } from "./rate-limit";
+import { renderTemplate } from "../utils/template";
+import { isValidAddress } from "../utils/email";
+
+const DEFAULT_PER_DAY = 3;
+
+/**
+ * Send the route's confirmation email to the submitter. Each address gets
+ * at most AUTO_REPLY_PER_DAY replies in 24 hours, whichever site the
+ * submissions came from, so the relay can't be used to mail-bomb someone.
+ * Returns a reason when nothing was sent.
+ */
+export async function sendAutoReply(
+  env: Env,
+  config: AutoReplyConfig,
+  submission: Submission
+): Promise<SendResult> {
+  const provider = resolveMailProvider(env);
+  const from = config.from || env.MAIL_FROM;
+  if (!provider || !from) return { success: false, error: "mail_not_configured" };
+
+  const to = submission.email.trim().toLowerCase();
+  if (!isValidAddress(to)) return { success: false, error: "invalid_recipient" };
+
+  const limited = await checkRateLimits(env, [
+    {
+      scope: "auto_reply",
+      key: `auto_reply:${to}`,
+      limit: parseInt(env.AUTO_REPLY_PER_DAY || "", 10) || DEFAULT_PER_DAY,
+      windowMs: 24 * 60 * 60 * 1000,
+    },
+  ]);
+  if (limited) return { success: false, error: "rate_limited" };
+
+  return provider.send({
+    from,
+    to,
+    // Header values must stay on one line
+    subject: renderTemplate(config.subject, submission, "text").replace(/\s+/g, " ").slice(0, 200),
+    text: renderTemplate(config.body, submission, "text"),
+    ...(config.reply_to ? { reply_to: config.reply_to } : {}),
+  });
+}
@@ -0,0 +1,238 @@
+import type { BlocklistConfig, BlocklistEntry, BlocklistType } from "../types";
+import { randomHex } from "../utils/crypto";
+import { matchPattern } from "../utils/origin";
+import { cidrContains, formatCidr, normalizeIp, parseCidr, parseIp } from "../utils/ip";
+import { normalizeRouteHost } from "../utils/routing";
+
+const BLOCKLIST_KEY = "blocklist";
+export const MAX_BLOCKLIST_ENTRIES = 1000;
+
+export const BLOCKLIST_TYPES: BlocklistType[] = ["ip", "cidr", "email", "domain", "country", "asn"];
+
+/** Fields an entry is created from; id and created_at are assigned on save */
+export type BlocklistInput = Omit<BlocklistEntry, "id" | "created_at">;
+
+/** What is known about a sender at the point of the check */
+export interface BlocklistKeys {
+  host: string;
+  ip?: string;
+  email?: string;
+  /** ISO country code from request.cf */
+  country?: string;
+  /** Autonomous system number from request.cf */
+  asn?: number;
+}
+
+/**
+ * Find the first active entry that matches the sender.
+ * Only the keys that are passed are checked, so network keys can be
+ * checked before the body is parsed and the email after.
+ */
+export function findBlocked(config: BlocklistConfig, keys: BlocklistKeys): BlocklistEntry | null {
+  const now = new Date().toISOString();
+  const ip = keys.ip ? parseIp(keys.ip) : null;
+  const ipText = keys.ip ? normalizeIp(keys.ip) : null;
+  const email = (keys.email || "").trim().toLowerCase();
+  const domain = email.includes("@") ? email.slice(email.lastIndexOf("@") + 1) : "";
+  const country = (keys.country || "").toUpperCase();
+  const asn = keys.asn ? String(keys.asn) : "";
+
+  return (
+    config.entries.find((entry) => {
+      if (entry.expires_at && entry.expires_at <= now) return false;
+      if (entry.host && !matchPattern(keys.host, entry.host)) return false;
+
+      switch (entry.type) {
+        case "ip":
+          return !!ipText && ipText === entry.value;
+        case "cidr": {
+          const cidr = parseCidr(entry.value);
+          return !!ip && !!cidr && cidrContains(cidr, ip);
+        }
+        case "email":
+          return email !== "" && entry.value === email;
+        case "domain":
+          return domain !== "" && (domain === entry.value || domain.endsWith(`.${entry.value}`));
+        case "country":
+          return country !== "" && entry.value === country;
+        case "asn":
+          return asn !== "" && entry.value === asn;
+      }
+    }) || null
+  );
+}
+
+/**
+ * Add entries, or update the reason/action/expiry of ones already listed
+ * with the same type, value and host. Expired entries are pruned.
+ * Returns the stored entries in input order; new entries beyond
+ * MAX_BLOCKLIST_ENTRIES are left out.
+ */
+export async function addToBlocklist(
+  kv: KVNamespace,
+  inputs: BlocklistInput[]
+): Promise<BlocklistEntry[]> {
+  const config = await getBlocklist(kv);
+  const now = new Date().toISOString();
+  const entries = config.entries.filter((e) => !e.expires_at || e.expires_at > now);
+  const stored: BlocklistEntry[] = [];
+
+  for (const input of inputs) {
+    const value = normalizeValue(input.type, input.value);
+    if (!value) continue;
+
+    const existing = entries.find(
+      (e) => e.type === input.type && e.value === value && (e.host || "") === (input.host || "")
+    );
+    if (existing) {
+      stripOptional(existing);
+      Object.assign(existing, withoutEmpty({ ...input, value }));
+      stored.push(existing);
+      continue;
+    }
+
+    if (entries.length >= MAX_BLOCKLIST_ENTRIES) continue;
+
+    const entry: BlocklistEntry = {
+      id: randomHex(6),
+      ...withoutEmpty({ ...input, value }),
+      created_at: now,
+    };
+    entries.push(entry);
+    stored.push(entry);
+  }
+
+  if (stored.length > 0) {
+    await kv.put(BLOCKLIST_KEY, JSON.stringify({ entries, updatedAt: now }));
+  }
+  return stored;
+}
+
+/**
+ * Remove the entry with this ID, or every entry with this value
+ * (optionally only the one scoped to `host`). Returns the removed entries.
+ */
+export async function removeFromBlocklist(
+  kv: KVNamespace,
+  target: string,
+  host?: string
+): Promise<BlocklistEntry[]> {
+  const config = await getBlocklist(kv);
+  const value = target.trim().toLowerCase();
+  const matches = (e: BlocklistEntry) =>
+    e.id === target ||
+    (e.value.toLowerCase() === value && (host === undefined || (e.host || "") === host));
+
+  const removed = config.entries.filter(matches);
+  if (removed.length === 0) return [];
+
+  await kv.put(
+    BLOCKLIST_KEY,
+    JSON.stringify({
+      entries: config.entries.filter((e) => !matches(e)),
+      updatedAt: new Date().toISOString(),
+    })
+  );
+  return removed;
+}
+
+export async function getBlocklist(kv: KVNamespace): Promise<BlocklistConfig> {
+  try {
+    const raw = await kv.get(BLOCKLIST_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch {
+    // Ignore KV/parse errors
+  }
+  return { entries: [], updatedAt: "" };
+}
+
+/**
+ * Validate an entry from the admin API. `ttl` (seconds) is accepted
+ * instead of `expires_at`. Returns an error description for bad input.
+ */
+export function normalizeBlocklistInput(input: unknown): BlocklistInput | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "entry must be an object";
+  }
+  const raw = input as Record<string, unknown>;
+
+  const type = BLOCKLIST_TYPES.find((t) => t === raw.type);
+  if (!type) return `type must be one of: ${BLOCKLIST_TYPES.join(", ")}`;
+
+  const value = normalizeValue(type, String(raw.value ?? ""));
+  if (!value) return `value is not a valid ${type}`;
+
+  const entry: BlocklistInput = { type, value };
+
+  if (raw.reason !== undefined && raw.reason !== "") {
+    if (typeof raw.reason !== "string") return "reason must be a string";
+    entry.reason = raw.reason.trim().slice(0, 200);
+  }
+
+  if (raw.host !== undefined && raw.host !== "") {
+    const host = typeof raw.host === "string" ? normalizeRouteHost(raw.host) : "";
+    if (!host) return "host must be a host pattern";
+    entry.host = host;
+  }
+
+  if (raw.action !== undefined) {
+    if (raw.action !== "silent" && raw.action !== "reject") {
+      return 'action must be "silent" or "reject"';
+    }
+    entry.action = raw.action;
+  }
+
+  if (raw.ttl !== undefined) {
+    const ttl = Number(raw.ttl);
+    if (!Number.isInteger(ttl) || ttl <= 0) return "ttl must be a positive number of seconds";
+    entry.expires_at = new Date(Date.now() + ttl * 1000).toISOString();
+  } else if (raw.expires_at !== undefined && raw.expires_at !== null) {
+    const expires = new Date(String(raw.expires_at));
+    if (isNaN(expires.getTime())) return "expires_at must be an ISO timestamp";
+    if (expires.getTime() <= Date.now()) return "expires_at must be in the future";
+    entry.expires_at = expires.toISOString();
+  }
+
+  return entry;
+}
+
+/**
+ * Canonical form of a value so lookups and duplicates compare equal.
+ * Returns "" for values that aren't valid for the type.
+ */
+function normalizeValue(type: BlocklistType, input: string): string {
+  const value = input.trim();
+
+  switch (type) {
+    case "ip":
+      return normalizeIp(value) || "";
+    case "cidr": {
+      const cidr = parseCidr(value);
+      return cidr ? formatCidr(cidr) : "";
+    }
+    case "email":
+      return /^[^\s@]+@[^\s@]+$/.test(value) ? value.toLowerCase() : "";
+    case "domain": {
+      const domain = value.replace(/^@/, "").toLowerCase();
+      return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : "";
+    }
+    case "country":
+      return /^[A-Z][A-Z0-9]$/i.test(value) ? value.toUpperCase() : "";
+    case "asn": {
+      const asn = value.replace(/^AS/i, "");
+      return /^\d{1,10}$/.test(asn) ? String(Number(asn)) : "";
+    }
+  }
+}
+
+function withoutEmpty(input: BlocklistInput): BlocklistInput {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, v]) => v !== undefined && v !== "")
+  ) as BlocklistInput;
+}
+
+function stripOptional(entry: BlocklistEntry): void {
+  delete entry.reason;
+  delete entry.action;
+  delete entry.expires_at;
+}
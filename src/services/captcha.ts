@@ -0,0 +1,141 @@
+import type { CaptchaConfig, CaptchaProviderName, Env, RouteConfig } from "../types";
+import { matchPattern } from "../utils/origin";
+
+/** Parsed siteverify response; the three providers share this shape */
+export interface CaptchaVerification {
+  success: boolean;
+  /** Hostname of the page the widget was solved on */
+  hostname?: string;
+  action?: string;
+  /** reCAPTCHA v3 only */
+  score?: number;
+  "error-codes"?: string[];
+}
+
+export interface CaptchaProvider {
+  /** Form fields the widget's token may arrive in, in order of preference */
+  tokenFields: string[];
+  /** Whether responses carry a score that min_score applies to */
+  scored: boolean;
+  verify(token: string, secret: string, remoteIp?: string): Promise<CaptchaVerification>;
+}
+
+export type CaptchaResult = { ok: true } | { ok: false; reason: string };
+
+export const DEFAULT_MIN_SCORE = 0.5;
+
+const turnstile: CaptchaProvider = {
+  tokenFields: ["cf-turnstile-response", "cf_turnstile_response"],
+  scored: false,
+  verify: (token, secret, remoteIp) =>
+    siteverify(
+      "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+      token,
+      secret,
+      remoteIp
+    ),
+};
+
+const hcaptcha: CaptchaProvider = {
+  tokenFields: ["h-captcha-response", "hcaptcha_response"],
+  scored: false,
+  verify: (token, secret, remoteIp) =>
+    siteverify("https://api.hcaptcha.com/siteverify", token, secret, remoteIp),
+};
+
+const recaptchaV2: CaptchaProvider = {
+  tokenFields: ["g-recaptcha-response", "recaptcha_response"],
+  scored: false,
+  verify: (token, secret, remoteIp) =>
+    siteverify("https://www.google.com/recaptcha/api/siteverify", token, secret, remoteIp),
+};
+
+const recaptchaV3: CaptchaProvider = { ...recaptchaV2, scored: true };
+
+export const CAPTCHA_PROVIDERS: Record<CaptchaProviderName, CaptchaProvider> = {
+  turnstile,
+  hcaptcha,
+  recaptcha_v2: recaptchaV2,
+  recaptcha_v3: recaptchaV3,
+};
+
+/**
+ * Captcha settings for a host: the route's own, else the global Turnstile
+ * switch. Returns null when no check is required.
+ */
+export function resolveCaptcha(route: RouteConfig | null, env: Env): CaptchaConfig | null {
+  if (route?.captcha) return route.captcha;
+  if (env.ENABLE_TURNSTILE === "true") {
+    return {
+      provider: "turnstile",
+      secret: env.TURNSTILE_SECRET || "",
+      ...(env.TURNSTILE_SITE_KEY ? { site_key: env.TURNSTILE_SITE_KEY } : {}),
+    };
+  }
+  return null;
+}
+
+/**
+ * Verify the captcha token in a submission with the configured provider,
+ * then check hostname, action and (reCAPTCHA v3) score.
+ */
+export async function verifyCaptcha(
+  config: CaptchaConfig,
+  data: Record<string, unknown>,
+  context: { host: string; ip?: string }
+): Promise<CaptchaResult> {
+  const provider = CAPTCHA_PROVIDERS[config.provider];
+  if (!provider || !config.secret) return { ok: false, reason: "captcha_not_configured" };
+
+  const token = provider.tokenFields
+    .map((field) => data[field])
+    .find((value): value is string => typeof value === "string" && value !== "");
+  if (!token) return { ok: false, reason: "missing_token" };
+
+  let result: CaptchaVerification;
+  try {
+    result = await provider.verify(token, config.secret, context.ip);
+  } catch {
+    return { ok: false, reason: "verification_unavailable" };
+  }
+
+  if (!result.success) {
+    return { ok: false, reason: result["error-codes"]?.join(",") || "invalid_token" };
+  }
+
+  const hostname = (result.hostname || "").toLowerCase().replace(/^www\./, "");
+  if (!hostname || !matchPattern(hostname, config.hostname || context.host)) {
+    return { ok: false, reason: "hostname_mismatch" };
+  }
+
+  if (config.action && result.action !== config.action) {
+    return { ok: false, reason: "action_mismatch" };
+  }
+
+  if (provider.scored) {
+    const minScore = config.min_score ?? DEFAULT_MIN_SCORE;
+    if (typeof result.score !== "number" || result.score < minScore) {
+      return { ok: false, reason: "score_too_low" };
+    }
+  }
+
+  return { ok: true };
+}
+
+async function siteverify(
+  url: string,
+  token: string,
+  secret: string,
+  remoteIp?: string
+): Promise<CaptchaVerification> {
+  const body = new URLSearchParams({ secret, response: token });
+  if (remoteIp && remoteIp !== "unknown") body.set("remoteip", remoteIp);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+
+  return response.json<CaptchaVerification>();
+}
@@ -0,0 +1,385 @@
+import type {
+  Env,
+  ChannelConfig,
+  ChannelType,
+  DestinationRef,
+  Locale,
+  RouteConfig,
+  SendResult,
+  Submission,
+  TelegramChannel,
+} from "../types";
+import { buildMessageText, escapeHtml } from "../utils/sanitize";
+import { messageLabels } from "../utils/i18n";
+import { renderTemplate } from "../utils/template";
+import type { MessageProgress } from "./telegram";
+import {
+  MAX_MESSAGE_LENGTH,
+  renderedLength,
+  sendLongTelegramMessage,
+  sendTelegramDocuments,
+} from "./telegram";
+import { sendSlackMessage } from "./slack";
+import { sendDiscordMessage } from "./discord";
+import { sendWebhook } from "./webhook";
+import { leadButtonsEnabled, leadId, leadKeyboard, openLead } from "./leads";
+import { getSpamPolicy } from "./spam";
+import { getRoutingMap, resolveRoute } from "../utils/routing";
+
+/** Rendered length past which Telegram gets a summary plus a .txt file */
+export const DEFAULT_DOCUMENT_THRESHOLD = 12_000;
+const SUMMARY_EXCERPT_LENGTH = 1000;
+const PROGRESS_PREFIX = "telegram_progress:";
+const PROGRESS_TTL = 60 * 60 * 24 * 31; // outlives a dead letter (30 days)
+
+export interface DeliveryResult extends SendResult {
+  channel: ChannelType;
+  /** Destination label: its name, or its position in the route */
+  destination: string;
+  /** Telegram chat the message was addressed to (before any migration) */
+  chat_id?: string;
+}
+
+/**
+ * Pick the delivery channel for a route.
+ * Routes without an explicit channel use Telegram with the route's
+ * chat_id/bot_token, falling back to BOT_TOKEN / TG_DEFAULT_CHAT_ID.
+ */
+export function resolveChannel(route: RouteConfig | null, env: Env): ChannelConfig {
+  return withTelegramDefaults(route?.channel || { type: "telegram" }, route, env);
+}
+
+/**
+ * List every destination a submission for this route goes to.
+ * Falls back to the single channel when the route has no destinations.
+ */
+export function resolveDestinations(route: RouteConfig | null, env: Env): ChannelConfig[] {
+  if (route?.destinations && route.destinations.length > 0) {
+    return route.destinations.map((destination) =>
+      withTelegramDefaults(destination, route, env)
+    );
+  }
+
+  return [resolveChannel(route, env)];
+}
+
+/**
+ * Destinations for one submission: suspected spam goes only to the
+ * spam policy's suspect chat, when one is set.
+ */
+export function submissionDestinations(
+  route: RouteConfig | null,
+  env: Env,
+  submission: Pick<Submission, "spam">,
+  suspectChatId?: string
+): ChannelConfig[] {
+  if (submission.spam && suspectChatId) {
+    return [
+      {
+        ...resolveChannel({ chat_id: suspectChatId, bot_token: route?.bot_token }, env),
+        name: "suspect",
+      },
+    ];
+  }
+
+  return resolveDestinations(route, env);
+}
+
+/**
+ * References to store instead of the channels themselves (see DestinationRef).
+ */
+export function destinationRefs(destinations: ChannelConfig[], silent: boolean): DestinationRef[] {
+  return destinations.map((channel, index) => ({
+    destination: channel.name || String(index),
+    channel_type: channel.type,
+    ...(silent ? { silent } : {}),
+  }));
+}
+
+/**
+ * Look up a stored destination's current channel, or null when the
+ * route no longer has it.
+ */
+export async function resolveDestinationRef(
+  env: Env,
+  submission: Pick<Submission, "host" | "spam">,
+  ref: DestinationRef
+): Promise<ChannelConfig | null> {
+  const route = resolveRoute(submission.host, await getRoutingMap(env.CONFIG, env.ROUTING_JSON));
+  const spamPolicy = submission.spam ? await getSpamPolicy(env.CONFIG, submission.host) : null;
+  const channel = submissionDestinations(
+    route,
+    env,
+    submission,
+    spamPolicy?.suspect_chat_id
+  ).find((candidate, index) => (candidate.name || String(index)) === ref.destination);
+
+  if (!channel) return null;
+  return ref.silent && channel.type === "telegram"
+    ? { ...channel, disable_notification: true }
+    : channel;
+}
+
+function withTelegramDefaults(
+  channel: ChannelConfig,
+  route: RouteConfig | null,
+  env: Env
+): ChannelConfig {
+  if (channel.type !== "telegram") return channel;
+
+  return {
+    ...channel,
+    chat_id: channel.chat_id || route?.chat_id || env.TG_DEFAULT_CHAT_ID,
+    bot_token: channel.bot_token || route?.bot_token || env.BOT_TOKEN,
+    template: channel.template || route?.template,
+    locale: channel.locale || route?.locale,
+    document_threshold: channel.document_threshold || route?.document_threshold,
+  };
+}
+
+/**
+ * Check that a resolved channel has everything it needs to send.
+ */
+export function isChannelConfigured(channel: ChannelConfig): boolean {
+  switch (channel.type) {
+    case "telegram":
+      return !!channel.chat_id && !!channel.bot_token;
+    case "slack":
+    case "discord":
+      return !!channel.webhook_url;
+    case "webhook":
+      return !!channel.url;
+  }
+}
+
+/**
+ * Deliver to all destinations in parallel.
+ * Results keep the order of the destinations.
+ */
+export async function deliverAll(
+  destinations: ChannelConfig[],
+  submission: Submission,
+  env: Env
+): Promise<DeliveryResult[]> {
+  return Promise.all(
+    destinations.map((channel, index) =>
+      deliver(channel, submission, env, channel.name || String(index))
+    )
+  );
+}
+
+/**
+ * Render the submission for the channel's platform and send it.
+ */
+export async function deliver(
+  channel: ChannelConfig,
+  submission: Submission,
+  env: Env,
+  destination = channel.name || "0"
+): Promise<DeliveryResult> {
+  switch (channel.type) {
+    case "telegram":
+      return deliverTelegram(channel, submission, env, destination);
+    case "slack": {
+      const result = await sendSlackMessage(channel.webhook_url, submission);
+      return { ...result, channel: "slack", destination };
+    }
+    case "discord": {
+      const result = await sendDiscordMessage(
+        channel.webhook_url,
+        submission,
+        channel.username
+      );
+      return { ...result, channel: "discord", destination };
+    }
+    case "webhook": {
+      const result = await sendWebhook(
+        channel.url,
+        submission,
+        channel.headers,
+        channel.secret
+      );
+      return { ...result, channel: "webhook", destination };
+    }
+  }
+}
+
+/**
+ * Telegram: the text (in parts when long), then any files as replies.
+ * When one of several sends fails, the ones that went out are recorded,
+ * so a retry (outbox, digest or dead-letter replay) sends only the rest.
+ */
+async function deliverTelegram(
+  channel: TelegramChannel,
+  submission: Submission,
+  env: Env,
+  destination: string
+): Promise<DeliveryResult> {
+  const configuredChatId = channel.chat_id || "";
+  const chatId = await getMigratedChatId(env.CONFIG, configuredChatId);
+  const text = telegramText(channel, submission);
+  // Very long submissions: a summary in the chat, the full text as a file
+  const long = renderedLength(text) > (channel.document_threshold || DEFAULT_DOCUMENT_THRESHOLD);
+  const botToken = channel.bot_token || "";
+  const lead = leadButtonsEnabled(env) ? await leadId(submission.request_id) : null;
+
+  // Files follow as replies to the text message
+  const uploads: [string, File[]][] = (
+    [
+      ["full text", long ? [fullTextDocument(submission, channel.locale)] : []],
+      ["attachments", submission.attachments || []],
+    ] as [string, File[]][]
+  ).filter(([, files]) => files.length > 0);
+
+  // Only a message with several sends can be left half-delivered
+  const body = long ? telegramSummary(channel, submission) : text;
+  const progressKey = `${PROGRESS_PREFIX}${submission.request_id}:${destination}`;
+  const multiStep = uploads.length > 0 || renderedLength(body) > MAX_MESSAGE_LENGTH;
+  const progress = multiStep ? await getProgress(env.CONFIG, progressKey) : null;
+  const done = { channel: "telegram" as const, destination, chat_id: configuredChatId };
+
+  const result = await sendLongTelegramMessage(
+    botToken,
+    chatId,
+    body,
+    {
+      message_thread_id: channel.message_thread_id,
+      disable_notification: channel.disable_notification,
+      ...(lead ? { reply_markup: leadKeyboard(lead) } : {}),
+    },
+    progress?.text
+  );
+  const { progress: textProgress, ...sent } = result;
+
+  if (!sent.success) {
+    if (textProgress) {
+      await saveProgress(env.CONFIG, progressKey, { text: textProgress, uploads: [] });
+    }
+    return { ...sent, ...done };
+  }
+
+  if (lead && !progress) {
+    await openLead(env.CONFIG, lead, submission, {
+      chat_id: sent.migrated_chat_id || chatId,
+      destination,
+    });
+  }
+
+  const uploaded = progress?.uploads || [];
+  for (const [label, files] of uploads) {
+    if (uploaded.includes(label)) continue;
+    const documents = await sendTelegramDocuments(botToken, sent.migrated_chat_id || chatId, files, {
+      message_thread_id: channel.message_thread_id,
+      reply_to_message_id: sent.message_id,
+      disable_notification: channel.disable_notification,
+    });
+    if (!documents.success) {
+      if (textProgress) {
+        await saveProgress(env.CONFIG, progressKey, { text: textProgress, uploads: uploaded });
+      }
+      return {
+        ...sent,
+        success: false,
+        error: `${label}: ${documents.error}`,
+        retry_after: documents.retry_after,
+        ...done,
+      };
+    }
+    uploaded.push(label);
+  }
+
+  if (progress) await env.CONFIG.delete(progressKey);
+  return { ...sent, ...done };
+}
+
+/** Sends of a partly delivered Telegram message that already went out */
+interface TelegramProgress {
+  text: MessageProgress;
+  /** Upload labels already sent ("full text", "attachments") */
+  uploads: string[];
+}
+
+async function getProgress(kv: KVNamespace, key: string): Promise<TelegramProgress | null> {
+  try {
+    const raw = await kv.get(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveProgress(kv: KVNamespace, key: string, progress: TelegramProgress): Promise<void> {
+  await kv.put(key, JSON.stringify(progress), { expirationTtl: PROGRESS_TTL });
+}
+
+/**
+ * The submission as Telegram HTML: the channel's template, or the
+ * default layout in the channel's locale, behind any spam warning.
+ */
+function telegramText(channel: TelegramChannel, submission: Submission): string {
+  const body = channel.template
+    ? renderTemplate(channel.template, submission)
+    : buildMessageText(
+        submission.name,
+        submission.email,
+        submission.telegram,
+        submission.message,
+        submission.host,
+        submission.fields,
+        channel.locale
+      );
+  return submission.spam ? `${spamWarning(submission.spam, channel.locale)}\n\n${body}` : body;
+}
+
+/**
+ * The usual message with the text cut short, pointing at the document.
+ */
+function telegramSummary(channel: TelegramChannel, submission: Submission): string {
+  const excerpt =
+    submission.message.length > SUMMARY_EXCERPT_LENGTH
+      ? `${submission.message.slice(0, SUMMARY_EXCERPT_LENGTH).trimEnd()}…`
+      : submission.message;
+  const labels = messageLabels(channel.locale);
+  return `${telegramText(channel, { ...submission, message: excerpt })}\n\n📎 <i>${labels.full_text}</i>`;
+}
+
+/**
+ * Plain-text copy of the whole submission, sent as a .txt document.
+ */
+function fullTextDocument(submission: Submission, locale?: Locale): File {
+  const labels = messageLabels(locale);
+  const lines = [
+    labels.title,
+    `${labels.origin}: ${submission.host}`,
+    `${labels.name}: ${submission.name || "-"}`,
+    `${labels.email}: ${submission.email || "-"}`,
+    ...(submission.telegram ? [`${labels.telegram}: https://t.me/${submission.telegram}`] : []),
+    ...(submission.fields || []).map((field) => `${field.label}: ${field.value}`),
+    "",
+    `${labels.message}:`,
+    submission.message,
+  ];
+  const name = `message-${submission.request_id.replace(/[^\w-]/g, "").slice(0, 16) || "full"}.txt`;
+  return new File([lines.join("\n")], name, { type: "text/plain; charset=utf-8" });
+}
+
+/**
+ * "⚠️ Suspected spam · score 7 (links:3, keyword:crypto)"
+ */
+function spamWarning(spam: NonNullable<Submission["spam"]>, locale?: Locale): string {
+  const labels = messageLabels(locale);
+  return `⚠️ <b>${labels.spam}</b> · ${labels.score} ${spam.score} (${escapeHtml(spam.reasons.join(", "))})`;
+}
+
+/**
+ * Check if this chat was migrated to a supergroup.
+ */
+export async function getMigratedChatId(kv: KVNamespace, chatId: string): Promise<string> {
+  try {
+    const migrated = await kv.get(`migrated_chat:${chatId}`);
+    if (migrated) return migrated;
+  } catch {
+    // Ignore KV errors
+  }
+  return chatId;
+}
@@ -0,0 +1,406 @@
+import type {
+  Env,
+  ChannelConfig,
+  DestinationRef,
+  HeldSubmission,
+  Locale,
+  OutboxMessage,
+  RouteConfig,
+  Submission,
+  TelegramChannel,
+} from "../types";
+import { deliver, destinationRefs, getMigratedChatId, resolveDestinationRef } from "./delivery";
+import {
+  MAX_ATTEMPTS,
+  enqueueDeliveries,
+  isOutboxEnabled,
+  recordOutcome,
+  retryDelaySeconds,
+  saveDeadLetter,
+} from "./outbox";
+import { sendTelegramMessage } from "./telegram";
+import { escapeHtml } from "../utils/sanitize";
+import { messageLabels } from "../utils/i18n";
+import { nextDigestAt, quietHoursEnd } from "../utils/schedule";
+
+const HELD_PREFIX = "held:";
+const HELD_TTL = 60 * 60 * 24 * 7; // kept a week past its release time
+const CLAIM_MS = 10 * 60 * 1000; // release time pushed back while a run sends it
+const MAX_DIGEST_LENGTH = 4000; // Telegram's limit is 4096
+const MAX_EXCERPT_LENGTH = 300;
+
+/** When and how a submission goes out */
+export interface DeliveryPlan {
+  /** Hold until this time (ms); unset means deliver now */
+  release_at?: number;
+  /** Merge into the next digest instead of a message of its own */
+  digest?: boolean;
+  /** Send with disable_notification */
+  silent: boolean;
+}
+
+/**
+ * Apply the route's digest schedule and quiet hours. A digest due inside
+ * quiet hours is pushed to the end of the window, or sent silently.
+ * Submissions that can't be held (attachments) go out now, silently
+ * during quiet hours.
+ */
+export function planDelivery(
+  route: RouteConfig | null,
+  now: number,
+  canHold: boolean
+): DeliveryPlan {
+  const quiet = route?.quiet_hours;
+  const holdQuiet = (quiet?.mode || "hold") === "hold";
+
+  if (canHold && route?.digest) {
+    const due = nextDigestAt(route.digest, now);
+    const quietEnd = quiet ? quietHoursEnd(quiet, due) : null;
+    return {
+      release_at: quietEnd && holdQuiet ? quietEnd : due,
+      digest: true,
+      silent: !!quietEnd && !holdQuiet,
+    };
+  }
+
+  const quietEnd = quiet ? quietHoursEnd(quiet, now) : null;
+  if (!quietEnd) return { silent: false };
+  if (canHold && holdQuiet) return { release_at: quietEnd, silent: false };
+  return { silent: true };
+}
+
+/**
+ * Telegram destinations with disable_notification set; other channels
+ * have no equivalent and are left as they are.
+ */
+export function silenceDestinations(destinations: ChannelConfig[]): ChannelConfig[] {
+  return destinations.map((channel) =>
+    channel.type === "telegram" ? { ...channel, disable_notification: true } : channel
+  );
+}
+
+/**
+ * Store a submission until its release time; the cron picks it up.
+ */
+export async function holdSubmission(
+  kv: KVNamespace,
+  submission: Submission,
+  destinations: ChannelConfig[],
+  plan: DeliveryPlan,
+  timezone?: string
+): Promise<void> {
+  const { attachments: _attachments, ...payload } = submission;
+  const releaseAt = plan.release_at || Date.now();
+  const held: HeldSubmission = {
+    submission: payload,
+    destinations: destinationRefs(destinations, plan.silent),
+    digest: !!plan.digest,
+    ...(timezone ? { timezone } : {}),
+  };
+
+  await putHeld(kv, `${HELD_PREFIX}${submission.request_id}`, held, releaseAt);
+}
+
+/**
+ * Cron: deliver held submissions that are due. Digest entries are merged
+ * into one message per Telegram chat. Other entries go to the outbox
+ * queue in outbox mode, or are delivered here.
+ *
+ * An entry is claimed (its release time pushed back) before sending, so
+ * an overlapping run skips it, and deleted once every destination has
+ * it. Failed destinations are queued in outbox mode; otherwise they are
+ * retried on a later run with backoff and dead-lettered after
+ * MAX_ATTEMPTS, as in the outbox.
+ */
+export async function releaseHeldSubmissions(env: Env): Promise<void> {
+  const now = Date.now();
+  const due: DueEntry[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.CONFIG.list<{ release_at: number }>({
+      prefix: HELD_PREFIX,
+      cursor,
+    });
+
+    for (const key of page.keys) {
+      if (!key.metadata || key.metadata.release_at > now) continue;
+
+      const raw = await env.CONFIG.get(key.name);
+      if (!raw) continue;
+
+      let held: HeldSubmission;
+      try {
+        held = JSON.parse(raw);
+      } catch {
+        // Unreadable entry; nothing to deliver
+        await env.CONFIG.delete(key.name);
+        continue;
+      }
+
+      await putHeld(env.CONFIG, key.name, held, now + CLAIM_MS);
+      due.push({ key: key.name, held, queued: [], failed: [] });
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const outbox = isOutboxEnabled(env);
+  const digests = new Map<string, DigestGroup>();
+
+  for (const entry of due) {
+    const { held } = entry;
+
+    for (const ref of held.destinations) {
+      const channel = await resolveDestinationRef(env, held.submission, ref);
+
+      if (!channel) {
+        await recordOutcome(env, outboxMessage(held, ref), {
+          ok: false,
+          error: "destination_not_found",
+        });
+        continue;
+      }
+
+      if (held.digest && channel.type === "telegram") {
+        const key = [channel.bot_token, channel.chat_id, channel.message_thread_id].join(":");
+        const group = digests.get(key) || { channel, entries: [] };
+        // The digest only stays quiet if every entry was held silently
+        if (!channel.disable_notification) {
+          group.channel = { ...group.channel, disable_notification: false };
+        }
+        group.entries.push({ entry, ref });
+        digests.set(key, group);
+        continue;
+      }
+
+      if (outbox) {
+        entry.queued.push(ref);
+        continue;
+      }
+
+      const failure = await releaseOne(env, held, ref, channel);
+      if (failure) entry.failed.push(failure);
+    }
+  }
+
+  for (const group of digests.values()) {
+    await sendDigest(env, group);
+  }
+
+  for (const entry of due) {
+    await settle(env, entry, outbox, now);
+  }
+}
+
+/** A claimed held submission and what became of its destinations */
+interface DueEntry {
+  key: string;
+  held: HeldSubmission;
+  /** Handed to the outbox queue */
+  queued: DestinationRef[];
+  failed: Failure[];
+}
+
+interface Failure {
+  ref: DestinationRef;
+  error: string;
+  retry_after?: number;
+}
+
+interface DigestGroup {
+  channel: TelegramChannel;
+  entries: { entry: DueEntry; ref: DestinationRef }[];
+}
+
+/**
+ * Deliver to one destination. Returns the failure, or null once sent.
+ */
+async function releaseOne(
+  env: Env,
+  held: HeldSubmission,
+  ref: DestinationRef,
+  channel: ChannelConfig
+): Promise<Failure | null> {
+  try {
+    const result = await deliver(channel, held.submission, env, ref.destination);
+    if (result.migrated_chat_id && result.chat_id) {
+      await cacheMigration(env, result.chat_id, result.migrated_chat_id);
+    }
+    if (!result.success) {
+      return { ref, error: result.error || "delivery_failed", retry_after: result.retry_after };
+    }
+  } catch (e) {
+    return { ref, error: e instanceof Error ? e.message : String(e) };
+  }
+
+  await recordOutcome(env, outboxMessage(held, ref), { ok: true });
+  return null;
+}
+
+/**
+ * Send a chat's digest. Entries in messages that went out are recorded
+ * as delivered; the rest are marked failed on their entry.
+ */
+async function sendDigest(env: Env, group: DigestGroup): Promise<void> {
+  const { channel, entries } = group;
+  const configuredChatId = channel.chat_id || "";
+  let chatId = await getMigratedChatId(env.CONFIG, configuredChatId);
+  let sent = 0;
+  let failure: Omit<Failure, "ref"> | null = null;
+
+  const digests = buildDigestTexts(
+    entries.map(({ entry }) => entry.held.submission),
+    channel.locale,
+    entries[0].entry.held.timezone
+  );
+
+  for (const { text, count } of digests) {
+    const result = await sendTelegramMessage(channel.bot_token || "", chatId, text, {
+      message_thread_id: channel.message_thread_id,
+      disable_notification: channel.disable_notification,
+    });
+    if (result.migrated_chat_id) {
+      chatId = result.migrated_chat_id;
+      await cacheMigration(env, configuredChatId, chatId);
+    }
+    if (!result.success) {
+      failure = { error: result.error || "telegram_send_failed", retry_after: result.retry_after };
+      break;
+    }
+    sent += count;
+  }
+
+  for (const [index, { entry, ref }] of entries.entries()) {
+    if (index < sent) {
+      await recordOutcome(env, outboxMessage(entry.held, ref), { ok: true });
+    } else if (failure) {
+      entry.failed.push({ ref, ...failure });
+    }
+  }
+}
+
+/**
+ * Delete an entry once nothing is left to send. Otherwise queue what's
+ * left (outbox mode), or keep it for a later run.
+ */
+async function settle(env: Env, entry: DueEntry, outbox: boolean, now: number): Promise<void> {
+  const { key, held, queued, failed } = entry;
+  const total = held.total || held.destinations.length;
+
+  if (outbox) {
+    const remaining = [...queued, ...failed.map((failure) => failure.ref)];
+    if (remaining.length > 0) {
+      await enqueueDeliveries(env, remaining, held.submission, total);
+    }
+    await env.CONFIG.delete(key);
+    return;
+  }
+
+  if (failed.length === 0) {
+    await env.CONFIG.delete(key);
+    return;
+  }
+
+  const attempts = (held.attempts || 0) + 1;
+
+  if (attempts >= MAX_ATTEMPTS) {
+    for (const { ref, error } of failed) {
+      const message = outboxMessage(held, ref);
+      await saveDeadLetter(env.CONFIG, message, error, attempts);
+      await recordOutcome(env, message, { ok: false, error });
+    }
+    await env.CONFIG.delete(key);
+    return;
+  }
+
+  const delaySeconds = Math.max(
+    retryDelaySeconds(attempts),
+    ...failed.map((failure) => failure.retry_after || 0)
+  );
+  await putHeld(
+    env.CONFIG,
+    key,
+    { ...held, destinations: failed.map((failure) => failure.ref), attempts, total },
+    now + delaySeconds * 1000
+  );
+}
+
+function outboxMessage(held: HeldSubmission, ref: DestinationRef): OutboxMessage {
+  return {
+    ...ref,
+    submission: held.submission,
+    total: held.total || held.destinations.length,
+  };
+}
+
+/**
+ * One or more digest messages, split between entries to stay under
+ * Telegram's message limit. `count` is the number of entries in each.
+ */
+export function buildDigestTexts(
+  submissions: Omit<Submission, "attachments">[],
+  locale?: Locale,
+  timezone = "UTC"
+): { text: string; count: number }[] {
+  const labels = messageLabels(locale);
+  const header = `📬 <b>${labels.digest}</b> · ${submissions.length}`;
+  const time = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  const texts: { text: string; count: number }[] = [];
+  let text = header;
+  let count = 0;
+
+  for (const submission of submissions) {
+    const who = [submission.name, submission.email, submission.telegram && `@${submission.telegram}`]
+      .filter(Boolean)
+      .map((value) => escapeHtml(value))
+      .join(" · ");
+    const excerpt =
+      submission.message ||
+      (submission.fields || []).map((field) => `${field.label}: ${field.value}`).join("; ");
+    const entry = [
+      `<b>${time.format(new Date(submission.submitted_at))}</b> · ${escapeHtml(submission.host)}${who ? ` · ${who}` : ""}`,
+      ...(excerpt ? [escapeHtml(truncate(excerpt, MAX_EXCERPT_LENGTH))] : []),
+    ].join("\n");
+
+    if (text.length + entry.length + 2 > MAX_DIGEST_LENGTH && count > 0) {
+      texts.push({ text, count });
+      text = header;
+      count = 0;
+    }
+    text += `\n\n${entry}`;
+    count++;
+  }
+
+  texts.push({ text, count });
+  return texts;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+async function putHeld(
+  kv: KVNamespace,
+  key: string,
+  held: HeldSubmission,
+  releaseAt: number
+): Promise<void> {
+  await kv.put(key, JSON.stringify(held), {
+    metadata: { release_at: releaseAt },
+    expiration: Math.ceil(releaseAt / 1000) + HELD_TTL,
+  });
+}
+
+async function cacheMigration(env: Env, chatId: string, migratedChatId: string): Promise<void> {
+  await env.CONFIG.put(`migrated_chat:${chatId}`, migratedChatId, {
+    expirationTtl: 60 * 60 * 24 * 365,
+  });
+}
@@ -0,0 +1,117 @@
+import type { SendResult, Submission } from "../types";
+import { postJson } from "./webhook";
+
+// Embed limits: 25 fields, and 6000 characters across title, description and fields
+const MAX_FIELDS = 25;
+const MAX_EMBED_LENGTH = 6000;
+
+interface EmbedField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+/**
+ * Send a submission to a Discord channel webhook.
+ */
+export async function sendDiscordMessage(
+  webhookUrl: string,
+  submission: Submission,
+  username?: string
+): Promise<SendResult> {
+  return postJson(webhookUrl, buildDiscordPayload(submission, username));
+}
+
+/**
+ * Build a webhook payload with a single embed.
+ * Mentions are disabled so "@everyone" in a message can't ping the channel.
+ */
+export function buildDiscordPayload(submission: Submission, username?: string) {
+  const fields: EmbedField[] = [
+    { name: "Origin", value: escapeDiscord(submission.host) || "-", inline: true },
+    { name: "Name", value: escapeDiscord(submission.name).slice(0, 1024) || "-", inline: true },
+    { name: "Email", value: escapeDiscord(submission.email).slice(0, 1024) || "-", inline: true },
+  ];
+
+  if (submission.telegram) {
+    fields.push({
+      name: "Telegram",
+      value: `https://t.me/${submission.telegram}`,
+      inline: true,
+    });
+  }
+
+  for (const field of submission.fields || []) {
+    fields.push({
+      name: escapeDiscord(field.label).slice(0, 256),
+      value: escapeDiscord(field.value).slice(0, 1024),
+      inline: true,
+    });
+  }
+
+  if (submission.attachments?.length) {
+    const names = submission.attachments.map((file) => escapeDiscord(file.name));
+    fields.push({
+      name: "Attachments (not forwarded)",
+      value: names.join(", ").slice(0, 1024),
+      inline: false,
+    });
+  }
+
+  const title = submission.spam
+    ? `⚠️ Suspected spam (score ${submission.spam.score})`
+    : "New Contact Request";
+  // Embed description is limited to 4096 characters
+  const description = escapeDiscord(submission.message).slice(0, 4000);
+
+  return {
+    ...(username ? { username } : {}),
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title,
+        description: description || undefined,
+        fields: fitFields(fields, MAX_EMBED_LENGTH - title.length - description.length),
+        timestamp: submission.submitted_at,
+      },
+    ],
+  };
+}
+
+/**
+ * Keep the embed within Discord's limits: fields past the 25th are merged
+ * into a last "More" field, and values are cut to the remaining budget.
+ */
+function fitFields(fields: EmbedField[], budget: number): EmbedField[] {
+  const capped =
+    fields.length > MAX_FIELDS
+      ? [
+          ...fields.slice(0, MAX_FIELDS - 1),
+          {
+            name: "More",
+            value: fields
+              .slice(MAX_FIELDS - 1)
+              .map((field) => `${field.name}: ${field.value}`)
+              .join("\n"),
+            inline: false,
+          },
+        ]
+      : fields;
+
+  const fitted: EmbedField[] = [];
+  for (const field of capped) {
+    const room = Math.min(1024, budget - field.name.length);
+    if (room < 1) break;
+    const value = field.value.length > room ? `${field.value.slice(0, room - 1)}…` : field.value;
+    fitted.push({ ...field, value });
+    budget -= field.name.length + value.length;
+  }
+  return fitted;
+}
+
+/**
+ * Escape Discord markdown so user input is shown verbatim.
+ */
+function escapeDiscord(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, "\\$1");
+}
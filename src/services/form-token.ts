@@ -0,0 +1,107 @@
+import type { FormTokenPolicy } from "../types";
+import { randomHex } from "../utils/crypto";
+
+export const DEFAULT_MIN_AGE = 2;
+export const DEFAULT_MAX_AGE = 3600;
+
+export type FormTokenResult = { ok: true; nonce: string } | { ok: false; reason: string };
+
+/**
+ * Issue a token bound to the origin host: "<issued ms>.<nonce>.<signature>".
+ * The host isn't in the token; it is part of the signed data, so a token
+ * only verifies for the Origin it was fetched from.
+ */
+export async function issueFormToken(secret: string, host: string): Promise<string> {
+  const issued = String(Date.now());
+  const nonce = randomHex(12);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    new TextEncoder().encode(`${host}.${issued}.${nonce}`)
+  );
+  return `${issued}.${nonce}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a token's signature against the submitting host, then its age.
+ */
+export async function verifyFormToken(
+  secret: string,
+  token: string,
+  host: string,
+  policy: FormTokenPolicy = {}
+): Promise<FormTokenResult> {
+  const [issued, nonce, signature, extra] = token.split(".");
+  if (!/^\d{13}$/.test(issued || "") || !/^[0-9a-f]{24}$/.test(nonce || "") || extra !== undefined) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const signatureBytes = fromBase64Url(signature || "");
+  const valid =
+    signatureBytes !== null &&
+    (await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(secret),
+      signatureBytes,
+      new TextEncoder().encode(`${host}.${issued}.${nonce}`)
+    ));
+  if (!valid) return { ok: false, reason: "bad_signature" };
+
+  const age = (Date.now() - Number(issued)) / 1000;
+  if (age < (policy.min_age ?? DEFAULT_MIN_AGE)) return { ok: false, reason: "too_fast" };
+  if (age > (policy.max_age ?? DEFAULT_MAX_AGE)) return { ok: false, reason: "expired" };
+
+  return { ok: true, nonce };
+}
+
+/**
+ * Check a token without using it up.
+ */
+export async function isFormTokenUsed(kv: KVNamespace, nonce: string): Promise<boolean> {
+  return !!(await kv.get(`form_token:${nonce}`));
+}
+
+/**
+ * Mark a token as used. Returns false if it was used before.
+ * KV is eventually consistent, so two uses within a few seconds from
+ * different locations may both pass.
+ */
+export async function consumeFormToken(
+  kv: KVNamespace,
+  nonce: string,
+  policy: FormTokenPolicy = {}
+): Promise<boolean> {
+  if (await isFormTokenUsed(kv, nonce)) return false;
+
+  // KV's minimum TTL is 60 seconds
+  const ttl = Math.max(60, Math.ceil(policy.max_age ?? DEFAULT_MAX_AGE));
+  await kv.put(`form_token:${nonce}`, "1", { expirationTtl: ttl });
+  return true;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
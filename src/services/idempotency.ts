@@ -1,3 +1,5 @@
+import { sha256Hex } from "../utils/crypto";
+
 const TTL_SECONDS = 300; // 5 minutes
 
 /**
@@ -27,10 +29,5 @@ export async function isDuplicate(
  * Generate payload hash for idempotency.
  */
 export async function payloadHash(payload: Record<string, string>): Promise<string> {
-  const body = JSON.stringify(payload, Object.keys(payload).sort());
-  const encoder = new TextEncoder();
-  const data = encoder.encode(body);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+  return sha256Hex(JSON.stringify(payload, Object.keys(payload).sort()));
 }
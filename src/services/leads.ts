@@ -0,0 +1,169 @@
+import type { Env, LeadState, Submission } from "../types";
+import type { InlineKeyboardMarkup } from "./telegram";
+import { sendTelegramMessage } from "./telegram";
+import { resolveDestinationRef } from "./delivery";
+import { sha256Hex } from "../utils/crypto";
+import { escapeHtml } from "../utils/sanitize";
+
+const LEAD_PREFIX = "lead:";
+const REMINDER_PREFIX = "lead_reminder:";
+const LEAD_TTL = 60 * 60 * 24 * 30; // 30 days
+export const SNOOZE_HOURS = 1;
+
+export type LeadAction = "take" | "spam" | "snooze";
+
+/** Message a snoozed lead's reminder replies to */
+export interface ReminderTarget {
+  chat_id: string;
+  message_id: number;
+  message_thread_id?: number;
+}
+
+/**
+ * Button presses arrive at /telegram/webhook, so buttons need its secret.
+ * A per-route bot's presses only arrive once its webhook points there too.
+ */
+export function leadButtonsEnabled(env: Env): boolean {
+  return !!env.TELEGRAM_WEBHOOK_SECRET;
+}
+
+/**
+ * Short, stable ID for a request: callback_data is limited to 64 bytes
+ * and request IDs can be arbitrary Idempotency-Key values.
+ */
+export async function leadId(requestId: string): Promise<string> {
+  return (await sha256Hex(requestId)).slice(0, 24);
+}
+
+export function leadKeyboard(id: string): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: [
+      [
+        { text: "✅ Take", callback_data: `lead:take:${id}` },
+        { text: "🚫 Spam", callback_data: `lead:spam:${id}` },
+        { text: `⏰ ${SNOOZE_HOURS}h`, callback_data: `lead:snooze:${id}` },
+      ],
+    ],
+  };
+}
+
+/**
+ * "lead:take:<id>" → { action: "take", id }
+ */
+export function parseLeadCallback(data: string): { action: LeadAction; id: string } | null {
+  const match = /^lead:(take|spam|snooze):([0-9a-f]+)$/.exec(data);
+  return match ? { action: match[1] as LeadAction, id: match[2] } : null;
+}
+
+/**
+ * Create the lead's state on first delivery and note which destination
+ * reached the chat. Later deliveries (other destinations, outbox retries)
+ * must not reset a lead someone already took.
+ * Errors are only logged: the message is already out.
+ */
+export async function openLead(
+  kv: KVNamespace,
+  id: string,
+  submission: Submission,
+  chat: { chat_id: string; destination: string }
+): Promise<void> {
+  try {
+    const lead: LeadState = (await getLead(kv, id)) || {
+      request_id: submission.request_id,
+      host: submission.host,
+      email: submission.email,
+      ...(submission.ip ? { ip: submission.ip } : {}),
+      ...(submission.spam ? { spam: submission.spam } : {}),
+      status: "open",
+    };
+    if (lead.chats?.[chat.chat_id] === chat.destination) return;
+
+    lead.chats = { ...lead.chats, [chat.chat_id]: chat.destination };
+    await saveLead(kv, id, lead);
+  } catch (e) {
+    console.error("lead state failed:", e);
+  }
+}
+
+export async function getLead(kv: KVNamespace, id: string): Promise<LeadState | null> {
+  const raw = await kv.get(`${LEAD_PREFIX}${id}`);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveLead(kv: KVNamespace, id: string, lead: LeadState): Promise<void> {
+  await kv.put(`${LEAD_PREFIX}${id}`, JSON.stringify(lead), { expirationTtl: LEAD_TTL });
+}
+
+/**
+ * The bot that posted the lead in a chat, resolved from the route so
+ * tokens aren't stored. Falls back to BOT_TOKEN.
+ */
+export async function leadBotToken(env: Env, lead: LeadState, chatId: string): Promise<string> {
+  const destination = lead.chats?.[chatId];
+  if (!destination) return env.BOT_TOKEN;
+
+  const channel = await resolveDestinationRef(env, lead, { destination, channel_type: "telegram" });
+  return (channel?.type === "telegram" && channel.bot_token) || env.BOT_TOKEN;
+}
+
+/**
+ * Remind the chat about a still-open lead after SNOOZE_HOURS.
+ * One reminder per lead and chat; snoozing again moves it.
+ */
+export async function scheduleReminder(
+  kv: KVNamespace,
+  id: string,
+  target: ReminderTarget
+): Promise<void> {
+  const remindAt = Date.now() + SNOOZE_HOURS * 3600_000;
+
+  await kv.put(`${REMINDER_PREFIX}${id}:${target.chat_id}`, JSON.stringify(target), {
+    metadata: { remind_at: remindAt },
+    expirationTtl: LEAD_TTL,
+  });
+}
+
+/**
+ * Cron: send reminders that are due, skipping leads handled in the meantime.
+ */
+export async function sendDueReminders(env: Env): Promise<void> {
+  const now = Date.now();
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.CONFIG.list<{ remind_at: number }>({
+      prefix: REMINDER_PREFIX,
+      cursor,
+    });
+
+    for (const key of page.keys) {
+      if (!key.metadata || key.metadata.remind_at > now) continue;
+
+      const id = key.name.slice(REMINDER_PREFIX.length).split(":")[0];
+      const [raw, lead] = await Promise.all([env.CONFIG.get(key.name), getLead(env.CONFIG, id)]);
+
+      if (raw && lead?.status === "open") {
+        const target: ReminderTarget = JSON.parse(raw);
+        await sendTelegramMessage(
+          await leadBotToken(env, lead, target.chat_id),
+          target.chat_id,
+          `⏰ Reminder: the lead from <b>${escapeHtml(lead.host)}</b> is still open`,
+          {
+            message_thread_id: target.message_thread_id,
+            reply_to_message_id: target.message_id,
+          }
+        );
+      }
+
+      await env.CONFIG.delete(key.name);
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+}
@@ -0,0 +1,68 @@
+import type { Env, SendResult } from "../types";
+import { postJson } from "./webhook";
+import { sendSmtp } from "./smtp";
+
+/** A plain-text email */
+export interface MailMessage {
+  /** "no-reply@acme.com" or "Acme <no-reply@acme.com>" */
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  reply_to?: string;
+}
+
+export interface MailProvider {
+  name: string;
+  send(message: MailMessage): Promise<SendResult>;
+}
+
+const MAX_MOCK_MESSAGES = 20;
+
+/** Messages "sent" by the mock provider, newest last */
+export const mockMailbox: MailMessage[] = [];
+
+/**
+ * Pick the provider from MAIL_PROVIDER, or null when mail isn't set up.
+ */
+export function resolveMailProvider(env: Env): MailProvider | null {
+  switch (env.MAIL_PROVIDER) {
+    case "http": {
+      if (!env.MAIL_API_URL) return null;
+      const url = env.MAIL_API_URL;
+      const headers: Record<string, string> = env.MAIL_API_KEY
+        ? { Authorization: `Bearer ${env.MAIL_API_KEY}` }
+        : {};
+      return {
+        name: "http",
+        send: (message) => postJson(url, message, headers),
+      };
+    }
+    case "smtp": {
+      if (!env.SMTP_HOST) return null;
+      const options = {
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || "", 10) || 587,
+        username: env.SMTP_USERNAME,
+        password: env.SMTP_PASSWORD,
+      };
+      return {
+        name: "smtp",
+        send: (message) => sendSmtp(options, message),
+      };
+    }
+    case "mock":
+      return {
+        name: "mock",
+        send: async (message) => {
+          mockMailbox.push(message);
+          if (mockMailbox.length > MAX_MOCK_MESSAGES) mockMailbox.shift();
+          // Only the envelope: the body holds the submitter's message
+          console.log("mock mail:", JSON.stringify({ to: message.to, subject: message.subject }));
+          return { success: true };
+        },
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,149 @@
+import type { Env, MetricCount, MetricOutcome } from "../types";
+
+const DEFAULT_DATASET = "contact_relay_metrics";
+const COUNTER_NAME = "global";
+/** Analytics Engine rejects index values longer than this */
+const MAX_INDEX_BYTES = 96;
+
+/**
+ * Host label for requests from origins that aren't allowed. Their Host
+ * header is whatever the client sent, so it isn't used as a label.
+ */
+export const REJECTED_HOST = "(rejected)";
+
+/**
+ * Count one /send outcome. Analytics Engine writes are fire-and-forget;
+ * the Durable Object increment runs after the response via waitUntil.
+ * A failed write is logged and never fails the request.
+ */
+export function recordMetric(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  host: string,
+  outcome: MetricOutcome
+): void {
+  const label = host || "(none)";
+
+  if (env.METRICS) {
+    try {
+      env.METRICS.writeDataPoint({
+        indexes: [truncateBytes(label, MAX_INDEX_BYTES)],
+        blobs: [label, outcome],
+        doubles: [1],
+      });
+    } catch (e) {
+      console.error("metrics failed:", e);
+    }
+    return;
+  }
+
+  if (env.METRICS_COUNTER) {
+    const stub = env.METRICS_COUNTER.get(env.METRICS_COUNTER.idFromName(COUNTER_NAME));
+    ctx.waitUntil(
+      stub.increment(label, outcome).catch((e) => console.error("metrics failed:", e))
+    );
+  }
+}
+
+/**
+ * Where counters can be read from, or null if they can't.
+ * Analytics Engine needs CF_ACCOUNT_ID and CF_API_TOKEN for its SQL API.
+ */
+export function metricsBackend(env: Env): "analytics_engine" | "durable_object" | null {
+  if (env.METRICS) {
+    return env.CF_ACCOUNT_ID && env.CF_API_TOKEN ? "analytics_engine" : null;
+  }
+  return env.METRICS_COUNTER ? "durable_object" : null;
+}
+
+/**
+ * Totals per host and outcome between two times.
+ * Durable Object counters are hourly, so the window is widened to whole hours.
+ */
+export async function queryMetrics(
+  env: Env,
+  from: Date,
+  to: Date,
+  host?: string
+): Promise<MetricCount[]> {
+  if (metricsBackend(env) === "analytics_engine") {
+    return queryAnalyticsEngine(env, from, to, host);
+  }
+
+  const stub = env.METRICS_COUNTER!.get(env.METRICS_COUNTER!.idFromName(COUNTER_NAME));
+  return stub.query(from.getTime(), to.getTime(), host);
+}
+
+/**
+ * Render counts in the Prometheus text exposition format.
+ * Values cover the queried window, so they are gauges rather than counters.
+ */
+export function toPrometheus(counts: MetricCount[], windowSeconds: number): string {
+  const lines = [
+    "# HELP contact_relay_submissions Submissions by host and outcome over the window.",
+    "# TYPE contact_relay_submissions gauge",
+    ...counts.map(
+      (c) =>
+        `contact_relay_submissions{host="${promLabel(c.host)}",outcome="${c.outcome}"} ${c.count}`
+    ),
+    "# HELP contact_relay_window_seconds Length of the window the counts cover.",
+    "# TYPE contact_relay_window_seconds gauge",
+    `contact_relay_window_seconds ${windowSeconds}`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+async function queryAnalyticsEngine(
+  env: Env,
+  from: Date,
+  to: Date,
+  host?: string
+): Promise<MetricCount[]> {
+  const dataset = env.METRICS_DATASET || DEFAULT_DATASET;
+  const seconds = (d: Date) => Math.floor(d.getTime() / 1000);
+
+  // _sample_interval accounts for Analytics Engine's sampling
+  const sql =
+    `SELECT blob1 AS host, blob2 AS outcome, SUM(_sample_interval * double1) AS count ` +
+    `FROM ${dataset} ` +
+    `WHERE timestamp >= toDateTime(${seconds(from)}) AND timestamp <= toDateTime(${seconds(to)})` +
+    (host ? ` AND blob1 = '${host.replace(/['\\]/g, "\\$&")}'` : "") +
+    ` GROUP BY host, outcome FORMAT JSON`;
+
+  const response = await fetch(
+    `https://api.cloudflare.com/client/v4/accounts/${env.CF_ACCOUNT_ID}/analytics_engine/sql`,
+    {
+      method: "POST",
+      headers: { Authorization: `Bearer ${env.CF_API_TOKEN}` },
+      body: sql,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Analytics Engine query failed: HTTP ${response.status}`);
+  }
+
+  const result = await response.json<{
+    data: { host: string; outcome: string; count: number | string }[];
+  }>();
+
+  return result.data.map((row) => ({
+    host: row.host,
+    outcome: row.outcome as MetricOutcome,
+    count: Math.round(Number(row.count)),
+  }));
+}
+
+function truncateBytes(value: string, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  // Every character takes at least one byte
+  let result = value.slice(0, maxBytes);
+  while (encoder.encode(result).byteLength > maxBytes) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+function promLabel(value: string): string {
+  return value.replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,65 @@
+import { matchHostEntry } from "../utils/origin";
+
+const MUTED_KEY = "muted_hosts";
+
+interface MutedHosts {
+  /** Host pattern → ISO time the mute ends, or "" for indefinitely */
+  [host: string]: string;
+}
+
+/**
+ * Check if submissions from a host are muted (accepted but not delivered).
+ */
+export async function isHostMuted(kv: KVNamespace, host: string): Promise<boolean> {
+  const muted = await getMutedHosts(kv);
+  return matchHostEntry(host, muted) !== null;
+}
+
+/**
+ * Mute a host pattern, optionally for a number of hours.
+ */
+export async function muteHost(
+  kv: KVNamespace,
+  host: string,
+  hours?: number
+): Promise<string> {
+  const muted = await getMutedHosts(kv);
+  const until = hours ? new Date(Date.now() + hours * 3600_000).toISOString() : "";
+
+  muted[host] = until;
+  await kv.put(MUTED_KEY, JSON.stringify(muted));
+
+  return until;
+}
+
+/**
+ * Unmute a host pattern. Returns false if it wasn't muted.
+ */
+export async function unmuteHost(kv: KVNamespace, host: string): Promise<boolean> {
+  const muted = await getMutedHosts(kv);
+  if (!(host in muted)) return false;
+
+  delete muted[host];
+  await kv.put(MUTED_KEY, JSON.stringify(muted));
+
+  return true;
+}
+
+/**
+ * Currently muted host patterns; expired mutes are dropped.
+ */
+export async function getMutedHosts(kv: KVNamespace): Promise<MutedHosts> {
+  try {
+    const raw = await kv.get(MUTED_KEY);
+    if (!raw) return {};
+
+    const all: MutedHosts = JSON.parse(raw);
+    const now = new Date().toISOString();
+
+    return Object.fromEntries(
+      Object.entries(all).filter(([, until]) => !until || until > now)
+    );
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,177 @@
+import type { Env, DeadLetter, DestinationRef, OutboxMessage, Submission } from "../types";
+import { deliver, resolveDestinationRef } from "./delivery";
+import { recordDeliveryOutcome } from "./archive";
+
+const DEAD_LETTER_PREFIX = "dead_letter:";
+const DEAD_LETTER_TTL = 60 * 60 * 24 * 30; // 30 days
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_SECONDS = 30;
+const MAX_DELAY_SECONDS = 60 * 60;
+
+/**
+ * Outbox mode is on when DELIVERY_MODE is "outbox" and the queue is bound.
+ */
+export function isOutboxEnabled(env: Env): boolean {
+  return env.DELIVERY_MODE === "outbox" && !!env.OUTBOX_QUEUE;
+}
+
+/**
+ * Queue one message per destination so a retry only re-sends
+ * to the destinations that actually failed.
+ */
+export async function enqueueDeliveries(
+  env: Env,
+  destinations: DestinationRef[],
+  submission: Submission,
+  total = destinations.length
+): Promise<void> {
+  const { attachments: _attachments, ...payload } = submission;
+
+  await env.OUTBOX_QUEUE!.sendBatch(
+    destinations.map((ref) => ({
+      body: { ...ref, submission: payload, total },
+    }))
+  );
+}
+
+/**
+ * Queue consumer: deliver each message, retrying with exponential backoff.
+ * Telegram's retry_after (or HTTP Retry-After) overrides the backoff.
+ * After MAX_ATTEMPTS the message moves to the dead-letter store.
+ */
+export async function processOutboxBatch(
+  batch: MessageBatch<OutboxMessage>,
+  env: Env
+): Promise<void> {
+  for (const msg of batch.messages) {
+    const { submission } = msg.body;
+
+    let error = "";
+    let retryAfter: number | undefined;
+
+    try {
+      const channel = await resolveDestinationRef(env, submission, msg.body);
+      if (!channel) {
+        // Removed from the route: retrying won't bring it back
+        await saveDeadLetter(env.CONFIG, msg.body, "destination_not_found", msg.attempts);
+        await recordOutcome(env, msg.body, { ok: false, error: "destination_not_found" });
+        msg.ack();
+        continue;
+      }
+
+      const result = await deliver(channel, submission, env, msg.body.destination);
+
+      if (result.success) {
+        if (result.migrated_chat_id && result.chat_id) {
+          await env.CONFIG.put(`migrated_chat:${result.chat_id}`, result.migrated_chat_id, {
+            expirationTtl: 60 * 60 * 24 * 365,
+          });
+        }
+        await recordOutcome(env, msg.body, { ok: true });
+        msg.ack();
+        continue;
+      }
+
+      error = result.error || "delivery_failed";
+      retryAfter = result.retry_after;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (msg.attempts >= MAX_ATTEMPTS) {
+      await saveDeadLetter(env.CONFIG, msg.body, error, msg.attempts);
+      await recordOutcome(env, msg.body, { ok: false, error });
+      msg.ack();
+      continue;
+    }
+
+    msg.retry({ delaySeconds: retryAfter || retryDelaySeconds(msg.attempts) });
+  }
+}
+
+/**
+ * Update the archive row (if ARCHIVE_DB is bound). Archive errors
+ * must not cause a redelivery, so they are only logged.
+ */
+export async function recordOutcome(
+  env: Env,
+  message: OutboxMessage,
+  outcome: { ok: boolean; error?: string }
+): Promise<void> {
+  if (!env.ARCHIVE_DB) return;
+
+  try {
+    await recordDeliveryOutcome(
+      env.ARCHIVE_DB,
+      message.submission.request_id,
+      {
+        destination: message.destination,
+        channel: message.channel_type,
+        ...outcome,
+      },
+      message.total
+    );
+  } catch (e) {
+    console.error("archive update failed:", e);
+  }
+}
+
+/**
+ * 30s, 60s, 120s, … capped at one hour.
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_DELAY_SECONDS * 2 ** (attempts - 1), MAX_DELAY_SECONDS);
+}
+
+export async function saveDeadLetter(
+  kv: KVNamespace,
+  message: OutboxMessage,
+  error: string,
+  attempts: number
+): Promise<void> {
+  const id = `${message.submission.request_id}:${message.destination}`;
+  const entry: DeadLetter = {
+    id,
+    message,
+    error,
+    attempts,
+    failed_at: new Date().toISOString(),
+  };
+
+  await kv.put(`${DEAD_LETTER_PREFIX}${id}`, JSON.stringify(entry), {
+    expirationTtl: DEAD_LETTER_TTL,
+  });
+}
+
+/**
+ * List dead letters one page at a time (KV key order).
+ */
+export async function listDeadLetters(
+  kv: KVNamespace,
+  cursor?: string
+): Promise<{ items: DeadLetter[]; cursor: string | null }> {
+  const page = await kv.list({ prefix: DEAD_LETTER_PREFIX, cursor, limit: 50 });
+
+  const items: DeadLetter[] = [];
+  for (const key of page.keys) {
+    const entry = await getDeadLetter(kv, key.name.slice(DEAD_LETTER_PREFIX.length));
+    if (entry) items.push(entry);
+  }
+
+  return { items, cursor: page.list_complete ? null : page.cursor };
+}
+
+export async function getDeadLetter(kv: KVNamespace, id: string): Promise<DeadLetter | null> {
+  const raw = await kv.get(`${DEAD_LETTER_PREFIX}${id}`);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteDeadLetter(kv: KVNamespace, id: string): Promise<void> {
+  await kv.delete(`${DEAD_LETTER_PREFIX}${id}`);
+}
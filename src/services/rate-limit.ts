@@ -1,36 +1,143 @@
-import type { RateLimitEntry } from "../types";
+import type { Env, RateLimitEntry, RateLimitResult, RateLimitRule } from "../types";
 
 const WINDOW_MS = 60_000; // 1 minute
 
 /**
- * Check if IP has exceeded rate limit using sliding window in KV.
- * Returns true if rate limited.
+ * Build the rate limit rules for a request.
+ * IP and origin host are known up front; email only after the body is parsed.
+ * API submissions are limited per key instead of per IP.
  */
-export async function isRateLimited(
-  kv: KVNamespace,
-  ip: string,
-  limitPerMin: number
-): Promise<boolean> {
-  const key = `rate:${ip}`;
+export function buildRateLimitRules(
+  env: Env,
+  keys: { ip?: string; host?: string; email?: string; apiKey?: string }
+): RateLimitRule[] {
+  const rules: RateLimitRule[] = [];
+
+  if (keys.apiKey) {
+    rules.push({
+      scope: "api_key",
+      key: `api_key:${keys.apiKey}`,
+      limit: parseInt(env.API_RATE_LIMIT_PER_MIN || "", 10) || 60,
+      windowMs: WINDOW_MS,
+    });
+  }
+
+  if (keys.ip) {
+    rules.push({
+      scope: "ip",
+      key: `ip:${keys.ip}`,
+      limit: parseInt(env.RATE_LIMIT_PER_MIN, 10) || 30,
+      windowMs: WINDOW_MS,
+    });
+  }
+
+  const hostLimit = parseInt(env.RATE_LIMIT_HOST_PER_MIN || "", 10);
+  if (keys.host && hostLimit > 0) {
+    rules.push({
+      scope: "host",
+      key: `host:${keys.host}`,
+      limit: hostLimit,
+      windowMs: WINDOW_MS,
+    });
+  }
+
+  const emailLimit = parseInt(env.RATE_LIMIT_EMAIL_PER_HOUR || "", 10);
+  if (keys.email && emailLimit > 0) {
+    rules.push({
+      scope: "email",
+      key: `email:${keys.email.toLowerCase()}`,
+      limit: emailLimit,
+      windowMs: 60 * WINDOW_MS,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Apply every rule and return the first one that is exceeded, or null.
+ * Uses the RateLimiter Durable Object when RATE_LIMIT_BACKEND is
+ * "durable_object" and the binding exists, otherwise KV.
+ */
+export async function checkRateLimits(
+  env: Env,
+  rules: RateLimitRule[]
+): Promise<(RateLimitResult & { rule: RateLimitRule }) | null> {
+  const useDurableObject =
+    env.RATE_LIMIT_BACKEND === "durable_object" && !!env.RATE_LIMITER;
+
+  for (const rule of rules) {
+    const result = useDurableObject
+      ? await hitDurableObject(env.RATE_LIMITER!, rule)
+      : await hitKv(env.RATE_LIMIT, rule);
+
+    if (result.limited) {
+      return { ...result, rule };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Headers for a 429 response: Retry-After plus X-RateLimit-*.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+
+  return {
+    "Retry-After": String(resetSeconds),
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(resetSeconds),
+  };
+}
+
+async function hitDurableObject(
+  namespace: NonNullable<Env["RATE_LIMITER"]>,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  const stub = namespace.get(namespace.idFromName(rule.key));
+  return stub.hit(rule.limit, rule.windowMs);
+}
+
+/**
+ * Sliding window in KV. Eventually consistent: parallel requests can
+ * read the same entry, so bursts may exceed the limit slightly.
+ */
+async function hitKv(kv: KVNamespace, rule: RateLimitRule): Promise<RateLimitResult> {
+  const key = `rate:${rule.key}`;
   const now = Date.now();
 
   const raw = await kv.get(key);
   let entry: RateLimitEntry = raw ? JSON.parse(raw) : { timestamps: [] };
 
   // Remove expired timestamps
-  const cutoff = now - WINDOW_MS;
+  const cutoff = now - rule.windowMs;
   entry.timestamps = entry.timestamps.filter((t) => t > cutoff);
 
   // Check limit
-  if (entry.timestamps.length >= limitPerMin) {
-    return true;
+  if (entry.timestamps.length >= rule.limit) {
+    return {
+      limited: true,
+      limit: rule.limit,
+      remaining: 0,
+      resetAt: entry.timestamps[entry.timestamps.length - rule.limit] + rule.windowMs,
+    };
   }
 
   // Record this request
   entry.timestamps.push(now);
 
-  // Store with TTL of 60 seconds
-  await kv.put(key, JSON.stringify(entry), { expirationTtl: 60 });
+  // KV TTL must be at least 60 seconds
+  await kv.put(key, JSON.stringify(entry), {
+    expirationTtl: Math.max(60, Math.ceil(rule.windowMs / 1000)),
+  });
 
-  return false;
+  return {
+    limited: false,
+    limit: rule.limit,
+    remaining: rule.limit - entry.timestamps.length,
+    resetAt: entry.timestamps[0] + rule.windowMs,
+  };
 }
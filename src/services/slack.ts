@@ -0,0 +1,97 @@
+import type { SendResult, Submission } from "../types";
+import { postJson } from "./webhook";
+
+// Block Kit limits: 10 fields per section, 2000 characters per field
+const MAX_SECTION_FIELDS = 10;
+const MAX_FIELD_LENGTH = 2000;
+/** Section text allows 3000; leaves room for the heading */
+const MAX_MESSAGE_LENGTH = 2900;
+
+/**
+ * Send a submission to a Slack incoming webhook.
+ */
+export async function sendSlackMessage(
+  webhookUrl: string,
+  submission: Submission
+): Promise<SendResult> {
+  return postJson(webhookUrl, buildSlackPayload(submission));
+}
+
+/**
+ * Build a Block Kit payload. `text` is the notification fallback.
+ */
+export function buildSlackPayload(submission: Submission) {
+  const fields = [
+    `*Origin:*\n${escapeSlack(submission.host) || "-"}`,
+    `*Name:*\n${escapeSlack(submission.name) || "-"}`,
+    `*Email:*\n${escapeSlack(submission.email) || "-"}`,
+  ];
+
+  if (submission.telegram) {
+    fields.push(`*Telegram:*\nhttps://t.me/${escapeSlack(submission.telegram)}`);
+  }
+
+  for (const field of submission.fields || []) {
+    fields.push(`*${escapeSlack(field.label)}:*\n${escapeSlack(field.value)}`);
+  }
+
+  if (submission.attachments?.length) {
+    const names = submission.attachments.map((file) => escapeSlack(file.name));
+    fields.push(`*Attachments (not forwarded):*\n${names.join(", ")}`);
+  }
+
+  const blocks: unknown[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: submission.spam
+          ? `⚠️ Suspected spam (score ${submission.spam.score})`
+          : "New Contact Request",
+      },
+    },
+  ];
+
+  // Forms with many extra fields get several sections
+  for (let i = 0; i < fields.length; i += MAX_SECTION_FIELDS) {
+    blocks.push({
+      type: "section",
+      fields: fields
+        .slice(i, i + MAX_SECTION_FIELDS)
+        .map((text) => ({ type: "mrkdwn", text: truncate(text, MAX_FIELD_LENGTH) })),
+    });
+  }
+
+  if (submission.message) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Message:*\n${truncate(escapeSlack(submission.message), MAX_MESSAGE_LENGTH)}`,
+      },
+    });
+  }
+
+  return {
+    text: `New Contact Request from ${submission.host || "-"}`,
+    blocks,
+  };
+}
+
+/**
+ * Cut escaped text to `max` characters without leaving half an entity.
+ */
+function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return `${text.slice(0, max - 1).replace(/&[a-z]*$/, "")}…`;
+}
+
+/**
+ * Escape control characters for Slack mrkdwn.
+ */
+function escapeSlack(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
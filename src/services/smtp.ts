@@ -0,0 +1,201 @@
+import { connect } from "cloudflare:sockets";
+import type { SendResult } from "../types";
+import type { MailMessage } from "./mail";
+import { addressOf } from "../utils/email";
+
+export interface SmtpOptions {
+  host: string;
+  /** 465 uses implicit TLS; any other port must offer STARTTLS */
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+const TIMEOUT_MS = 15_000;
+/** 45 bytes are 60 base64 characters, 72 with the "=?UTF-8?B?…?=" wrapper */
+const MAX_WORD_BYTES = 45;
+
+/**
+ * Send one message through an SMTP relay. Credentials are never sent
+ * over an unencrypted connection: servers without STARTTLS are refused.
+ * Cloudflare blocks outbound port 25, so use 465 or 587.
+ */
+export async function sendSmtp(options: SmtpOptions, message: MailMessage): Promise<SendResult> {
+  const session = new SmtpSession(
+    connect(
+      { hostname: options.host, port: options.port },
+      { secureTransport: options.port === 465 ? "on" : "starttls", allowHalfOpen: false }
+    )
+  );
+  let timer = 0;
+
+  try {
+    await Promise.race([
+      converse(session, options, message),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error("SMTP timeout")), TIMEOUT_MS);
+      }),
+    ]);
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    clearTimeout(timer);
+    await session.close();
+  }
+}
+
+async function converse(
+  session: SmtpSession,
+  options: SmtpOptions,
+  message: MailMessage
+): Promise<void> {
+  const sender = addressOf(message.from);
+  const ehlo = `EHLO ${sender.split("@")[1] || "localhost"}`;
+
+  await session.expect([220]);
+  const features = await session.command(ehlo, [250]);
+
+  if (options.port !== 465) {
+    if (!/^STARTTLS\b/im.test(features)) throw new Error("server does not offer STARTTLS");
+    await session.command("STARTTLS", [220]);
+    session.startTls(options.host);
+    await session.command(ehlo, [250]);
+  }
+
+  if (options.username) {
+    const credentials = `\0${options.username}\0${options.password || ""}`;
+    await session.command(`AUTH PLAIN ${base64(credentials)}`, [235]);
+  }
+
+  await session.command(`MAIL FROM:<${sender}>`, [250]);
+  await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+  await session.command("DATA", [354]);
+  await session.command(`${buildMimeMessage(message)}\r\n.`, [250]);
+  await session.command("QUIT", [221]).catch(() => "");
+}
+
+/**
+ * Headers plus a base64 text/plain body. Base64 keeps lines short and
+ * means no line can start with "." (no dot-stuffing needed).
+ */
+export function buildMimeMessage(message: MailMessage, date = new Date()): string {
+  const domain = addressOf(message.from).split("@")[1] || "localhost";
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeWords(message.subject)}`,
+    `Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    ...(message.reply_to ? [`Reply-To: ${encodeMailbox(message.reply_to)}`] : []),
+    "Auto-Submitted: auto-replied",
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  const body = base64(message.text.replace(/\r?\n/g, "\r\n")).replace(/.{1,76}/g, "$&\r\n");
+
+  return `${headers.join("\r\n")}\r\n\r\n${body.trimEnd()}`;
+}
+
+/**
+ * "Café Acme <a@b.c>" → "=?UTF-8?B?...?= <a@b.c>"
+ */
+function encodeMailbox(mailbox: string): string {
+  const address = addressOf(mailbox);
+  const name = mailbox.slice(0, mailbox.lastIndexOf("<")).trim().replace(/^"|"$/g, "");
+  if (!name || !mailbox.includes("<")) return `<${address}>`;
+  return `${/^[\w .'-]+$/.test(name) ? name : encodeWords(name)} <${address}>`;
+}
+
+/**
+ * RFC 2047 encoded words for non-ASCII header text, split so each word
+ * stays within the 75-character limit. A word carries at most
+ * MAX_WORD_BYTES of UTF-8 and never splits a character.
+ */
+function encodeWords(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk = "";
+  let chunkBytes = 0;
+  for (const char of text) {
+    const bytes = encoder.encode(char).byteLength;
+    if (chunkBytes + bytes > MAX_WORD_BYTES) {
+      words.push(`=?UTF-8?B?${base64(chunk)}?=`);
+      chunk = "";
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += bytes;
+  }
+  if (chunk) words.push(`=?UTF-8?B?${base64(chunk)}?=`);
+  return words.join("\r\n ");
+}
+
+function base64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+/**
+ * Line-based reader/writer over a socket, with STARTTLS upgrade.
+ */
+class SmtpSession {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private buffer = "";
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(private socket: Socket) {
+    this.reader = socket.readable.getReader();
+    this.writer = socket.writable.getWriter();
+  }
+
+  /** Send a line and check the reply code; returns the reply text */
+  async command(line: string, codes: number[]): Promise<string> {
+    await this.writer.write(this.encoder.encode(`${line}\r\n`));
+    return this.expect(codes);
+  }
+
+  async expect(codes: number[]): Promise<string> {
+    const lines: string[] = [];
+    do {
+      lines.push(await this.readLine());
+    } while (/^\d{3}-/.test(lines[lines.length - 1]));
+
+    const last = lines[lines.length - 1];
+    const code = parseInt(last.slice(0, 3), 10);
+    if (!codes.includes(code)) throw new Error(`SMTP ${last}`);
+    return lines.map((line) => line.slice(4)).join("\n");
+  }
+
+  startTls(hostname: string): void {
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+    this.socket = this.socket.startTls({ expectedServerHostname: hostname });
+    this.reader = this.socket.readable.getReader();
+    this.writer = this.socket.writable.getWriter();
+    this.buffer = "";
+  }
+
+  async close(): Promise<void> {
+    await this.socket.close().catch(() => undefined);
+  }
+
+  private async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf("\r\n");
+      if (end >= 0) {
+        const line = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        return line;
+      }
+
+      const { value, done } = await this.reader.read();
+      if (done) throw new Error("SMTP connection closed");
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+  }
+}
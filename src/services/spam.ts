@@ -0,0 +1,320 @@
+import type {
+  SpamPoliciesConfig,
+  SpamPolicy,
+  SpamRule,
+  SpamVerdict,
+  Submission,
+} from "../types";
+import { sha256Hex } from "../utils/crypto";
+import { matchHostEntry } from "../utils/origin";
+
+export const SPAM_POLICIES_KEY = "spam_policies";
+
+const DEFAULT_SUSPECT_SCORE = 5;
+const DEFAULT_DROP_SCORE = 10;
+const MAX_RULES = 50;
+const MAX_WORDS = 200;
+const MAX_PATTERN_LENGTH = 200;
+const REPEAT_WINDOW_SECONDS = 60 * 60 * 24;
+const LINK = /\bhttps?:\/\/|\bwww\.|\bt\.me\//gi;
+
+/**
+ * Get the spam policy for a host, or null if it has none.
+ */
+export async function getSpamPolicy(kv: KVNamespace, host: string): Promise<SpamPolicy | null> {
+  const config = await getSpamPoliciesConfig(kv);
+  if (!config) return null;
+  return matchHostEntry(host, config.policies);
+}
+
+export async function getSpamPoliciesConfig(
+  kv: KVNamespace
+): Promise<SpamPoliciesConfig | null> {
+  try {
+    const raw = await kv.get(SPAM_POLICIES_KEY);
+    if (!raw) return null;
+    const config = JSON.parse(raw);
+    return config.policies && typeof config.policies === "object" ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score a submission against a policy.
+ * `seenKv` remembers message hashes for the "repeated" rule.
+ */
+export async function scoreSubmission(
+  seenKv: KVNamespace,
+  policy: SpamPolicy,
+  submission: Submission
+): Promise<SpamVerdict> {
+  const text = [
+    submission.name,
+    submission.message,
+    ...(submission.fields || []).map((f) => f.value),
+  ].join("\n");
+
+  let score = 0;
+  const reasons: string[] = [];
+  const hit = (weight: number, reason: string) => {
+    score += weight;
+    reasons.push(reason);
+  };
+
+  for (const rule of policy.rules) {
+    switch (rule.type) {
+      case "links": {
+        const links = (text.match(LINK) || []).length;
+        if (links > rule.max) hit(rule.weight * (links - rule.max), `links:${links}`);
+        break;
+      }
+      case "keywords": {
+        const lower = text.toLowerCase();
+        for (const word of rule.words) {
+          if (lower.includes(word)) hit(rule.weight, `keyword:${word}`);
+        }
+        break;
+      }
+      case "regex":
+        if (new RegExp(rule.pattern, "iu").test(text)) hit(rule.weight, `regex:${rule.pattern}`);
+        break;
+      case "script":
+        if (isForeignScript(submission.message, rule.allowed)) hit(rule.weight, "script");
+        break;
+      case "all_caps":
+        if (isAllCaps(submission.message)) hit(rule.weight, "all_caps");
+        break;
+      case "email_name_mismatch":
+        if (isNameMismatch(submission.name, submission.email)) {
+          hit(rule.weight, "email_name_mismatch");
+        }
+        break;
+      case "repeated":
+        if (await seenRecently(seenKv, submission.message)) hit(rule.weight, "repeated");
+        break;
+    }
+  }
+
+  const suspectScore = policy.suspect_score ?? DEFAULT_SUSPECT_SCORE;
+  const dropScore = policy.drop_score ?? DEFAULT_DROP_SCORE;
+  const action = score >= dropScore ? "drop" : score >= suspectScore ? "suspect" : "deliver";
+
+  return { score, reasons, action };
+}
+
+/**
+ * More than half of the message's letters are outside the allowed scripts.
+ */
+function isForeignScript(message: string, allowed: string[]): boolean {
+  const letters = message.match(/\p{L}/gu) || [];
+  if (letters.length < 10) return false;
+
+  const allowedRe = new RegExp(allowed.map((s) => `\\p{Script=${s}}`).join("|"), "u");
+  const foreign = letters.filter((ch) => !allowedRe.test(ch)).length;
+  return foreign / letters.length > 0.5;
+}
+
+function isAllCaps(message: string): boolean {
+  const letters = message.match(/\p{L}/gu) || [];
+  if (letters.length < 20) return false;
+
+  const upper = letters.filter((ch) => ch !== ch.toLowerCase()).length;
+  return upper / letters.length > 0.7;
+}
+
+/**
+ * "John Smith" / "jsmith@…" matches; "John Smith" / "xk8821@…" doesn't.
+ * Only Latin names are compared, since addresses rarely transliterate.
+ */
+function isNameMismatch(name: string, email: string): boolean {
+  const local = email.split("@")[0].toLowerCase().replace(/[^a-z]/g, "");
+  const parts = name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((part) => part.length >= 3);
+
+  if (!local || parts.length === 0) return false;
+  return !parts.some((part) => local.includes(part));
+}
+
+/**
+ * Remember the normalized message for 24 hours; true if it was already seen.
+ */
+async function seenRecently(kv: KVNamespace, message: string): Promise<boolean> {
+  const normalized = message.toLowerCase().replace(/\s+/g, " ").trim();
+  if (normalized.length < 20) return false;
+
+  const key = `spam_seen:${(await sha256Hex(normalized)).slice(0, 32)}`;
+
+  const seen = await kv.get(key);
+  if (!seen) {
+    await kv.put(key, "1", { expirationTtl: REPEAT_WINDOW_SECONDS });
+  }
+  return !!seen;
+}
+
+/**
+ * Validate a policy coming from the admin API.
+ * Returns an error description for bad input.
+ */
+export function normalizeSpamPolicy(input: unknown): SpamPolicy | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "policy must be an object";
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0 || raw.rules.length > MAX_RULES) {
+    return `rules must be an array of 1-${MAX_RULES} rules`;
+  }
+
+  const rules: SpamRule[] = [];
+  for (const [index, item] of raw.rules.entries()) {
+    const rule = normalizeRule(item);
+    if (typeof rule === "string") return `rules[${index}]: ${rule}`;
+    rules.push(rule);
+  }
+
+  const policy: SpamPolicy = { rules };
+
+  for (const key of ["suspect_score", "drop_score"] as const) {
+    if (raw[key] === undefined) continue;
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value) || value <= 0) return `${key} must be a positive number`;
+    policy[key] = value;
+  }
+
+  if ((policy.suspect_score ?? DEFAULT_SUSPECT_SCORE) > (policy.drop_score ?? DEFAULT_DROP_SCORE)) {
+    return "suspect_score must not exceed drop_score";
+  }
+
+  if (raw.suspect_chat_id !== undefined) {
+    const chatId = String(raw.suspect_chat_id).trim();
+    if (!/^-?\d+$|^@\w+$/.test(chatId)) return "suspect_chat_id must be a chat ID";
+    policy.suspect_chat_id = chatId;
+  }
+
+  return policy;
+}
+
+function normalizeRule(input: unknown): SpamRule | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "must be an object";
+  const raw = input as Record<string, unknown>;
+
+  const weight = Number(raw.weight);
+  if (!Number.isFinite(weight)) return "weight must be a number";
+
+  switch (raw.type) {
+    case "links": {
+      const max = Number(raw.max ?? 0);
+      if (!Number.isInteger(max) || max < 0) return "max must be a non-negative integer";
+      return { type: "links", max, weight };
+    }
+    case "keywords": {
+      if (!Array.isArray(raw.words) || raw.words.length === 0 || raw.words.length > MAX_WORDS) {
+        return `words must be an array of 1-${MAX_WORDS} strings`;
+      }
+      const words = raw.words
+        .map((w) => String(w).trim().toLowerCase())
+        .filter((w) => w.length > 0 && w.length <= 64);
+      if (words.length === 0) return "words must not be empty";
+      return { type: "keywords", words: Array.from(new Set(words)), weight };
+    }
+    case "regex": {
+      const pattern = String(raw.pattern || "");
+      if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+        return `pattern must be 1-${MAX_PATTERN_LENGTH} characters`;
+      }
+      try {
+        new RegExp(pattern, "iu");
+      } catch {
+        return "pattern is not a valid regular expression";
+      }
+      const unsafe = backtrackingRisk(pattern);
+      if (unsafe) return `pattern ${unsafe}`;
+      return { type: "regex", pattern, weight };
+    }
+    case "script": {
+      if (!Array.isArray(raw.allowed) || raw.allowed.length === 0) {
+        return "allowed must list Unicode scripts, e.g. [\"Latin\", \"Cyrillic\"]";
+      }
+      const allowed = raw.allowed.map((s) => String(s).trim());
+      for (const script of allowed) {
+        try {
+          if (!/^[A-Za-z_]+$/.test(script)) throw new Error();
+          new RegExp(`\\p{Script=${script}}`, "u");
+        } catch {
+          return `unknown script "${script}"`;
+        }
+      }
+      return { type: "script", allowed, weight };
+    }
+    case "all_caps":
+    case "email_name_mismatch":
+    case "repeated":
+      return { type: raw.type, weight };
+    default:
+      return `unknown rule type "${raw.type}"`;
+  }
+}
+
+/**
+ * Reject the constructs that make a regex backtrack exponentially on
+ * crafted input (patterns run on every submission): a repeated group
+ * that itself repeats or alternates, like "(a+)+" or "(a|ab)*", and
+ * backreferences. Returns why the pattern is refused, or null.
+ */
+function backtrackingRisk(pattern: string): string | null {
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: { quantified: boolean; alternation: boolean }[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] || "")) return "must not use backreferences";
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+
+    const group = groups[groups.length - 1];
+    switch (char) {
+      case "[":
+        inClass = true;
+        break;
+      case "(":
+        groups.push({ quantified: false, alternation: false });
+        // "(?:", "(?=", "(?<name>" are group syntax, not quantifiers
+        if (pattern[i + 1] === "?") i++;
+        break;
+      case ")": {
+        const closed = groups.pop();
+        if (closed && /[*+{]/.test(pattern[i + 1] || "")) {
+          if (closed.quantified || closed.alternation) {
+            return "must not repeat a group that repeats or alternates, e.g. (a+)+";
+          }
+          closed.quantified = true;
+        }
+        const parent = groups[groups.length - 1];
+        if (parent && closed?.quantified) parent.quantified = true;
+        break;
+      }
+      case "|":
+        if (group) group.alternation = true;
+        break;
+      case "*":
+      case "+":
+      case "?":
+      case "{":
+        if (group) group.quantified = true;
+        break;
+    }
+  }
+
+  return null;
+}
@@ -1,19 +1,48 @@
+import type { SendResult } from "../types";
+
 const TELEGRAM_API = "https://api.telegram.org";
 const MAX_RETRIES = 3;
+/** sendMessage limit, counted after entity parsing */
+export const MAX_MESSAGE_LENGTH = 4096;
+
+const HTML_TOKEN = /<(\/?)([a-z][a-z0-9-]*)[^>]*>|&(?:#\d+|#x[0-9a-f]+|[a-z]+);|[^<&]+|[<&]/gi;
 
 interface TelegramResponse {
   ok: boolean;
   description?: string;
+  result?: { message_id?: number };
   parameters?: {
     migrate_to_chat_id?: number;
+    retry_after?: number;
   };
 }
 
-export interface SendResult {
-  success: boolean;
-  error?: string;
-  /** Set when the group was migrated to a supergroup */
-  migrated_chat_id?: string;
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+/** Formatting span of a received message (UTF-16 offsets) */
+export interface MessageEntity {
+  type: string;
+  offset: number;
+  length: number;
+  url?: string;
+}
+
+export interface SendOptions {
+  /** Forum topic ID in a supergroup with topics enabled */
+  message_thread_id?: number;
+  /** Message to reply to, e.g. the text message files belong to */
+  reply_to_message_id?: number;
+  /** Inline buttons under the message */
+  reply_markup?: InlineKeyboardMarkup;
+  /** Deliver without a notification sound (quiet hours) */
+  disable_notification?: boolean;
 }
 
 /**
@@ -23,7 +52,8 @@ export interface SendResult {
 export async function sendTelegramMessage(
   botToken: string,
   chatId: string,
-  text: string
+  text: string,
+  options: SendOptions = {}
 ): Promise<SendResult> {
   const url = `${TELEGRAM_API}/bot${botToken}/sendMessage`;
 
@@ -40,15 +70,29 @@ export async function sendTelegramMessage(
           text: text,
           parse_mode: "HTML",
           disable_web_page_preview: true,
+          ...(options.message_thread_id
+            ? { message_thread_id: options.message_thread_id }
+            : {}),
+          ...(options.reply_to_message_id
+            ? {
+                reply_parameters: {
+                  message_id: options.reply_to_message_id,
+                  allow_sending_without_reply: true,
+                },
+              }
+            : {}),
+          ...(options.reply_markup ? { reply_markup: options.reply_markup } : {}),
+          ...(options.disable_notification ? { disable_notification: true } : {}),
         }),
       });
 
       const result: TelegramResponse = await response.json();
 
       if (result.ok) {
+        const messageId = result.result?.message_id;
         return currentChatId !== chatId
-          ? { success: true, migrated_chat_id: currentChatId }
-          : { success: true };
+          ? { success: true, message_id: messageId, migrated_chat_id: currentChatId }
+          : { success: true, message_id: messageId };
       }
 
       // Handle supergroup migration — retry immediately with new chat ID
@@ -58,6 +102,16 @@ export async function sendTelegramMessage(
         continue; // retry with new ID, don't count as a failed attempt
       }
 
+      // Flood control — short backoff won't help, let the caller reschedule
+      const retryAfter = result.parameters?.retry_after;
+      if (retryAfter) {
+        return {
+          success: false,
+          error: result.description || `HTTP ${response.status}`,
+          retry_after: retryAfter,
+        };
+      }
+
       lastError = result.description || `HTTP ${response.status}`;
     } catch (e) {
       lastError = e instanceof Error ? e.message : String(e);
@@ -72,6 +126,300 @@ export async function sendTelegramMessage(
   return { success: false, error: lastError };
 }
 
+/** How much of a long message has gone out: the first message and the part count */
+export interface MessageProgress {
+  message_id: number;
+  parts: number;
+}
+
+/**
+ * Send an HTML message of any length. Text over MAX_MESSAGE_LENGTH is
+ * split into parts; later parts are sent as replies to the first, which
+ * gets the reply markup. The result describes the first message.
+ * With `resume`, the parts already sent are skipped; a failed result
+ * carries the progress to resume from.
+ */
+export async function sendLongTelegramMessage(
+  botToken: string,
+  chatId: string,
+  text: string,
+  options: SendOptions = {},
+  resume?: MessageProgress
+): Promise<SendResult & { progress?: MessageProgress }> {
+  const parts = splitHtmlMessage(text);
+  const first: SendResult = resume
+    ? { success: true, message_id: resume.message_id }
+    : await sendTelegramMessage(botToken, chatId, parts[0], options);
+  if (!first.success) return first;
+
+  const progress: MessageProgress = {
+    message_id: first.message_id || 0,
+    parts: resume?.parts || 1,
+  };
+
+  for (const part of parts.slice(progress.parts)) {
+    const result = await sendTelegramMessage(botToken, first.migrated_chat_id || chatId, part, {
+      message_thread_id: options.message_thread_id,
+      disable_notification: options.disable_notification,
+      reply_to_message_id: first.message_id,
+    });
+    if (!result.success) {
+      return {
+        ...first,
+        success: false,
+        error: `part ${progress.parts + 1}/${parts.length}: ${result.error}`,
+        retry_after: result.retry_after,
+        progress,
+      };
+    }
+    progress.parts++;
+  }
+
+  return { ...first, progress };
+}
+
+/**
+ * Length of an HTML message as Telegram counts it: tags don't count,
+ * an entity like &amp; counts as one character.
+ */
+export function renderedLength(html: string): number {
+  let length = 0;
+  for (const [token, , tag] of html.matchAll(HTML_TOKEN)) {
+    if (tag) continue;
+    length += token.startsWith("&") && token.length > 1 ? 1 : token.length;
+  }
+  return length;
+}
+
+/**
+ * Split an HTML message into parts of at most `limit` rendered characters.
+ * Breaks at a newline or space where possible, never inside a tag or an
+ * entity; tags open at a break are closed and reopened in the next part.
+ */
+export function splitHtmlMessage(html: string, limit = MAX_MESSAGE_LENGTH): string[] {
+  if (renderedLength(html) <= limit) return [html];
+
+  const parts: string[] = [];
+  const open: { name: string; tag: string }[] = [];
+  let current = "";
+  let length = 0;
+
+  const flush = () => {
+    const closing = [...open].reverse().map((t) => `</${t.name}>`).join("");
+    parts.push(current + closing);
+    current = open.map((t) => t.tag).join("");
+    length = 0;
+  };
+
+  for (const [token, closingSlash, tag] of html.matchAll(HTML_TOKEN)) {
+    if (tag) {
+      const name = tag.toLowerCase();
+      if (closingSlash) {
+        const index = open.map((t) => t.name).lastIndexOf(name);
+        if (index >= 0) open.splice(index, 1);
+      } else {
+        open.push({ name, tag: token });
+      }
+      current += token;
+      continue;
+    }
+
+    if (token.startsWith("&") && token.length > 1) {
+      if (length + 1 > limit) flush();
+      current += token;
+      length += 1;
+      continue;
+    }
+
+    let text = token;
+    while (length + text.length > limit) {
+      const room = limit - length;
+      let cut = text.lastIndexOf("\n", room);
+      if (cut <= 0) cut = text.lastIndexOf(" ", room);
+
+      if (cut > 0) {
+        current += text.slice(0, cut);
+        text = text.slice(cut + 1);
+      } else if (length > 0) {
+        // No break in this piece; start it on a fresh part
+      } else {
+        // One long word: hard cut, keeping surrogate pairs together
+        cut = /[\ud800-\udbff]/.test(text[room - 1]) ? room - 1 : room;
+        current += text.slice(0, cut);
+        text = text.slice(cut);
+      }
+      flush();
+    }
+
+    current += text;
+    length += text.length;
+  }
+
+  if (length > 0) parts.push(current);
+  return parts;
+}
+
+/**
+ * Send files as documents: one file via sendDocument, several as a
+ * document album via sendMediaGroup (Telegram allows up to 10 per album).
+ * The body is rebuilt on every attempt since FormData streams are consumed.
+ */
+export async function sendTelegramDocuments(
+  botToken: string,
+  chatId: string,
+  files: File[],
+  options: SendOptions = {}
+): Promise<SendResult> {
+  if (files.length === 0) return { success: true };
+
+  const method = files.length === 1 ? "sendDocument" : "sendMediaGroup";
+  const url = `${TELEGRAM_API}/bot${botToken}/${method}`;
+
+  const buildBody = (): FormData => {
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    if (options.message_thread_id) {
+      form.append("message_thread_id", String(options.message_thread_id));
+    }
+    if (options.disable_notification) {
+      form.append("disable_notification", "true");
+    }
+    if (options.reply_to_message_id) {
+      form.append(
+        "reply_parameters",
+        JSON.stringify({
+          message_id: options.reply_to_message_id,
+          allow_sending_without_reply: true,
+        })
+      );
+    }
+
+    if (files.length === 1) {
+      form.append("document", files[0], files[0].name);
+    } else {
+      const media = files.map((file, i) => {
+        form.append(`file${i}`, file, file.name);
+        return { type: "document", media: `attach://file${i}` };
+      });
+      form.append("media", JSON.stringify(media));
+    }
+
+    return form;
+  };
+
+  let lastError = "";
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      const response = await fetch(url, { method: "POST", body: buildBody() });
+      const result: TelegramResponse = await response.json();
+
+      if (result.ok) {
+        return { success: true };
+      }
+
+      const retryAfter = result.parameters?.retry_after;
+      if (retryAfter) {
+        return {
+          success: false,
+          error: result.description || `HTTP ${response.status}`,
+          retry_after: retryAfter,
+        };
+      }
+
+      lastError = result.description || `HTTP ${response.status}`;
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+
+    if (attempt < MAX_RETRIES - 1) {
+      await sleep(400 * (attempt + 1));
+    }
+  }
+
+  return { success: false, error: lastError };
+}
+
+/**
+ * Look up a user's status in a chat ("creator", "administrator", "member", …).
+ * Returns null if the lookup fails.
+ */
+export async function getChatMemberStatus(
+  botToken: string,
+  chatId: string,
+  userId: number
+): Promise<string | null> {
+  try {
+    const response = await fetch(`${TELEGRAM_API}/bot${botToken}/getChatMember`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chat_id: chatId, user_id: userId }),
+    });
+    const result = await response.json<{ ok: boolean; result?: { status: string } }>();
+    return result.ok ? result.result?.status || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace a message's text. Pass `entities` to keep the formatting of text
+ * taken from an update; omitting `reply_markup` removes the buttons.
+ */
+export async function editTelegramMessage(
+  botToken: string,
+  chatId: string,
+  messageId: number,
+  text: string,
+  options: { entities?: MessageEntity[]; reply_markup?: InlineKeyboardMarkup } = {}
+): Promise<SendResult> {
+  return callTelegram(botToken, "editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    ...(options.entities ? { entities: options.entities } : { parse_mode: "HTML" }),
+    disable_web_page_preview: true,
+    ...(options.reply_markup ? { reply_markup: options.reply_markup } : {}),
+  });
+}
+
+/**
+ * Acknowledge a button press, optionally with a short toast for the user.
+ */
+export async function answerCallbackQuery(
+  botToken: string,
+  callbackQueryId: string,
+  text?: string
+): Promise<SendResult> {
+  return callTelegram(botToken, "answerCallbackQuery", {
+    callback_query_id: callbackQueryId,
+    ...(text ? { text } : {}),
+  });
+}
+
+/**
+ * Single Bot API call without retries, for interactive updates.
+ */
+async function callTelegram(
+  botToken: string,
+  method: string,
+  body: Record<string, unknown>
+): Promise<SendResult> {
+  try {
+    const response = await fetch(`${TELEGRAM_API}/bot${botToken}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result: TelegramResponse = await response.json();
+    return result.ok
+      ? { success: true }
+      : { success: false, error: result.description || `HTTP ${response.status}` };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,104 @@
+import type { SendResult, Submission } from "../types";
+import { hmacHex } from "../utils/crypto";
+
+const MAX_RETRIES = 3;
+
+/**
+ * POST a JSON body with retry logic.
+ * Network errors, 429 and 5xx responses are retried; other 4xx fail fast.
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<SendResult> {
+  const payload = JSON.stringify(body);
+  let lastError = "";
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: payload,
+      });
+
+      if (response.ok) {
+        return { success: true };
+      }
+
+      const text = await response.text();
+      lastError = `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`;
+
+      // Honour Retry-After on 429 instead of hammering the endpoint
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+      if (response.status === 429 && retryAfter > 0) {
+        return { success: false, error: lastError, retry_after: retryAfter };
+      }
+
+      if (response.status < 500 && response.status !== 429) {
+        break;
+      }
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+
+    // Exponential backoff: 400ms, 800ms, 1200ms
+    if (attempt < MAX_RETRIES - 1) {
+      await sleep(400 * (attempt + 1));
+    }
+  }
+
+  return { success: false, error: lastError };
+}
+
+/**
+ * Deliver a submission to a generic JSON webhook.
+ * With a secret, the raw body is signed: X-Relay-Signature: sha256=<hex>.
+ */
+export async function sendWebhook(
+  url: string,
+  submission: Submission,
+  headers: Record<string, string> = {},
+  secret?: string
+): Promise<SendResult> {
+  const body = buildWebhookPayload(submission);
+
+  if (secret) {
+    const signature = await hmacHex(secret, JSON.stringify(body));
+    headers = { ...headers, "X-Relay-Signature": `sha256=${signature}` };
+  }
+
+  return postJson(url, body, headers);
+}
+
+/**
+ * Build the generic webhook body.
+ */
+export function buildWebhookPayload(submission: Submission) {
+  return {
+    event: "contact.submission",
+    request_id: submission.request_id,
+    host: submission.host,
+    submitted_at: submission.submitted_at,
+    data: {
+      name: submission.name,
+      email: submission.email,
+      telegram: submission.telegram,
+      message: submission.message,
+      ...Object.fromEntries((submission.fields || []).map((f) => [f.name, f.value])),
+    },
+    // File contents are only forwarded to Telegram
+    attachments: (submission.attachments || []).map((file) => ({
+      name: file.name,
+      type: file.type,
+      size: file.size,
+    })),
+    ...(submission.spam ? { spam: submission.spam } : {}),
+    ...(submission.metadata ? { metadata: submission.metadata } : {}),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,3 +1,6 @@
+import type { RateLimiter } from "./durable-objects/rate-limiter";
+import type { MetricsCounter } from "./durable-objects/metrics-counter";
+
 export interface Env {
   RATE_LIMIT: KVNamespace;
   IDEMPOTENCY: KVNamespace;
@@ -7,16 +10,207 @@ export interface Env {
   ROUTING_JSON?: string;
   ALLOWED_ORIGINS?: string;
   RATE_LIMIT_PER_MIN: string;
+  RATE_LIMIT_HOST_PER_MIN?: string;
+  RATE_LIMIT_EMAIL_PER_HOUR?: string;
+  /** Requests per minute per API key on /api/v1/submit (default 60) */
+  API_RATE_LIMIT_PER_MIN?: string;
+  /** "kv" (default) or "durable_object" */
+  RATE_LIMIT_BACKEND?: string;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+  /** "direct" (default) or "outbox" to deliver through OUTBOX_QUEUE */
+  DELIVERY_MODE?: string;
+  OUTBOX_QUEUE?: Queue<OutboxMessage>;
+  /** Optional submission archive (see migrations/) */
+  ARCHIVE_DB?: D1Database;
+  /** Outcome counters: Analytics Engine when bound, else the MetricsCounter DO */
+  METRICS?: AnalyticsEngineDataset;
+  /** Dataset name of the METRICS binding (default "contact_relay_metrics") */
+  METRICS_DATASET?: string;
+  METRICS_COUNTER?: DurableObjectNamespace<MetricsCounter>;
+  /** Account and API token (Account Analytics: Read) to query Analytics Engine */
+  CF_ACCOUNT_ID?: string;
+  CF_API_TOKEN?: string;
   ENABLE_TURNSTILE: string;
   TURNSTILE_SECRET?: string;
+  /** Public Turnstile site key, for the hosted widget */
+  TURNSTILE_SITE_KEY?: string;
+  /** HMAC key for form tokens from GET /token */
+  FORM_TOKEN_SECRET?: string;
   ADMIN_KEY?: string;
+  /** Telegram chat notified of every admin configuration change */
+  AUDIT_CHAT_ID?: string;
+  /** secret_token registered with setWebhook; enables /telegram/webhook */
+  TELEGRAM_WEBHOOK_SECRET?: string;
+  /** Extra chat IDs (comma-separated) whose admins may run bot commands */
+  TELEGRAM_ADMIN_CHAT_IDS?: string;
+  /** Auto-reply mail provider: "http", "smtp" or "mock" */
+  MAIL_PROVIDER?: string;
+  /** Default sender, e.g. "Acme <no-reply@acme.com>" */
+  MAIL_FROM?: string;
+  /** "http" provider: endpoint and bearer token */
+  MAIL_API_URL?: string;
+  MAIL_API_KEY?: string;
+  /** "smtp" provider: relay host, port (465 = implicit TLS, else STARTTLS) and login */
+  SMTP_HOST?: string;
+  SMTP_PORT?: string;
+  SMTP_USERNAME?: string;
+  SMTP_PASSWORD?: string;
+  /** Auto-replies per recipient address per 24 hours (default 3) */
+  AUTO_REPLY_PER_DAY?: string;
 }
 
 export interface RouteConfig {
   chat_id?: string;
   bot_token?: string;
+  /** Delivery channel; defaults to Telegram with chat_id/bot_token above */
+  channel?: ChannelConfig;
+  /** Fan-out: deliver to every destination; takes precedence over channel */
+  destinations?: ChannelConfig[];
+  /** File uploads; multipart files are rejected when not set */
+  attachments?: AttachmentPolicy;
+  /** Telegram message template (see utils/template.ts for the syntax) */
+  template?: string;
+  /** Captcha check for this host; overrides ENABLE_TURNSTILE */
+  captcha?: CaptchaConfig;
+  /** Signed form token rules (see GET /token) */
+  form_token?: FormTokenPolicy;
+  /** Answer plain HTML form posts with a 303 to these pages */
+  redirect?: RedirectConfig;
+  /** Language of the default Telegram message labels (default "en") */
+  locale?: Locale;
+  /** Buffer submissions and post them as one digest per Telegram chat */
+  digest?: DigestConfig;
+  /** Hold submissions, or send them without a notification, in this window */
+  quiet_hours?: QuietHours;
+  /** Confirmation email to the submitter (needs MAIL_PROVIDER) */
+  auto_reply?: AutoReplyConfig;
+  /** Longest accepted built-in field values; longer input is cut */
+  max_lengths?: BuiltinMaxLengths;
+  /** Telegram messages longer than this get a summary plus a .txt document */
+  document_threshold?: number;
+}
+
+export type BuiltinMaxLengths = Partial<Record<"name" | "email" | "telegram" | "message", number>>;
+
+export interface AutoReplyConfig {
+  /** Subject and plain-text body templates (see utils/template.ts) */
+  subject: string;
+  body: string;
+  /** Sender address; defaults to MAIL_FROM */
+  from?: string;
+  reply_to?: string;
+}
+
+export interface DigestConfig {
+  /** "hourly": at the top of every hour; "daily": once a day at `hour` */
+  schedule: "hourly" | "daily";
+  /** Local hour of the daily digest, 0–23 (default 9) */
+  hour?: number;
+  /** IANA time zone, e.g. "Europe/Madrid" (default UTC) */
+  timezone?: string;
+}
+
+export interface QuietHours {
+  /** Local "HH:MM"; the window may cross midnight ("22:00"–"08:00") */
+  start: string;
+  end: string;
+  /** IANA time zone (default UTC) */
+  timezone?: string;
+  /** "hold" (default) delivers when the window ends; "silent" sends with disable_notification */
+  mode?: "hold" | "silent";
+}
+
+export type Locale = "en" | "ru" | "es";
+
+export interface RedirectConfig {
+  success_url: string;
+  /** Defaults to success_url; both get ?status=, errors also ?error=<code> */
+  error_url?: string;
+}
+
+export interface FormTokenPolicy {
+  /** Reject submissions without a token instead of falling back to `ts` */
+  required?: boolean;
+  /** Seconds a token must exist before it can be used (default 2) */
+  min_age?: number;
+  /** Seconds a token stays valid (default 3600) */
+  max_age?: number;
+}
+
+export type CaptchaProviderName = "turnstile" | "hcaptcha" | "recaptcha_v2" | "recaptcha_v3";
+
+export interface CaptchaConfig {
+  provider: CaptchaProviderName;
+  secret: string;
+  /** Public site key, needed for the hosted widget to render the captcha */
+  site_key?: string;
+  /** Hostname pattern the widget must be solved on; defaults to the origin host */
+  hostname?: string;
+  /** Expected widget action (Turnstile, reCAPTCHA v3) */
+  action?: string;
+  /** reCAPTCHA v3: lowest accepted score, 0–1 (default 0.5) */
+  min_score?: number;
 }
 
+export interface AttachmentPolicy {
+  /** Max number of files per submission (Telegram albums hold up to 10) */
+  max_files?: number;
+  /** Max size of a single file in bytes */
+  max_file_size?: number;
+  /** Allowed MIME types; a trailing "*" matches a prefix, e.g. "image/*" */
+  allowed_types?: string[];
+}
+
+export type ChannelType = "telegram" | "slack" | "discord" | "webhook";
+
+interface ChannelBase {
+  /** Label reported back in per-destination delivery results */
+  name?: string;
+}
+
+export interface TelegramChannel extends ChannelBase {
+  type: "telegram";
+  chat_id?: string;
+  bot_token?: string;
+  /** Forum topic to post into */
+  message_thread_id?: number;
+  /** Overrides the route's template for this destination */
+  template?: string;
+  /** Overrides the route's locale for this destination */
+  locale?: Locale;
+  /** Deliver without a notification sound */
+  disable_notification?: boolean;
+  /** Overrides the route's document_threshold for this destination */
+  document_threshold?: number;
+}
+
+export interface SlackChannel extends ChannelBase {
+  type: "slack";
+  /** Incoming webhook URL (https://hooks.slack.com/services/...) */
+  webhook_url: string;
+}
+
+export interface DiscordChannel extends ChannelBase {
+  type: "discord";
+  /** Channel webhook URL (https://discord.com/api/webhooks/...) */
+  webhook_url: string;
+  username?: string;
+}
+
+export interface WebhookChannel extends ChannelBase {
+  type: "webhook";
+  url: string;
+  headers?: Record<string, string>;
+  /** When set, the body is signed with HMAC-SHA256 in X-Relay-Signature */
+  secret?: string;
+}
+
+export type ChannelConfig =
+  | TelegramChannel
+  | SlackChannel
+  | DiscordChannel
+  | WebhookChannel;
+
 export interface RoutingMap {
   [hostname: string]: RouteConfig;
 }
@@ -30,6 +224,299 @@ export interface ContactFormData {
   ts?: string;
   cf_turnstile_response?: string;
   hcaptcha_response?: string;
+  recaptcha_response?: string;
+  form_token?: string;
+  /** Preferred language for the response `message`, e.g. "es" */
+  lang?: string;
+  /** Redirect-mode target for plain form posts */
+  _redirect?: string;
+}
+
+export type FieldType =
+  | "text"
+  | "textarea"
+  | "email"
+  | "tel"
+  | "number"
+  | "url"
+  | "select"
+  | "checkbox";
+
+export interface FieldSchema {
+  /** Form field key, e.g. "company" */
+  name: string;
+  /** Label shown in delivered messages; defaults to the name */
+  label?: string;
+  type: FieldType;
+  required?: boolean;
+  max_length?: number;
+  /** Allowed values for "select" fields */
+  options?: string[];
+}
+
+export interface FormSchema {
+  fields: FieldSchema[];
+}
+
+export interface FormSchemasConfig {
+  schemas: { [hostname: string]: FormSchema };
+  updatedAt: string;
+}
+
+/**
+ * Per-host settings for the hosted form widget (/widget.js).
+ */
+export interface WidgetConfig {
+  title?: string;
+  /** Field names in display order; defaults to name, email, schema fields, message */
+  fields?: string[];
+  /** Label overrides by field name */
+  labels?: Record<string, string>;
+  submit_label?: string;
+  success_message?: string;
+  /** Overrides for error texts, keyed by error code (e.g. "rate_limited", "required") */
+  messages?: Record<string, string>;
+  theme?: WidgetTheme;
+}
+
+export interface WidgetTheme {
+  /** Hex colours, e.g. "#2563eb" */
+  primary?: string;
+  background?: string;
+  text?: string;
+  border?: string;
+  /** Corner radius in pixels */
+  radius?: number;
+  /** CSS font-family list */
+  font?: string;
+}
+
+export interface WidgetsConfig {
+  widgets: { [hostname: string]: WidgetConfig };
+  updatedAt: string;
+}
+
+/**
+ * One spam scoring rule; `weight` is added to the score when it fires.
+ */
+export type SpamRule =
+  /** Each link beyond `max` adds the weight */
+  | { type: "links"; max: number; weight: number }
+  /** Each listed word found (case-insensitive) adds the weight */
+  | { type: "keywords"; words: string[]; weight: number }
+  | { type: "regex"; pattern: string; weight: number }
+  /** Most letters of the message are outside the allowed Unicode scripts */
+  | { type: "script"; allowed: string[]; weight: number }
+  | { type: "all_caps"; weight: number }
+  /** No part of the sender's name appears in the email address */
+  | { type: "email_name_mismatch"; weight: number }
+  /** The same message text was submitted in the last 24 hours */
+  | { type: "repeated"; weight: number };
+
+export interface SpamPolicy {
+  rules: SpamRule[];
+  /** Score from which a lead is flagged as suspected spam (default 5) */
+  suspect_score?: number;
+  /** Score from which a submission is silently dropped (default 10) */
+  drop_score?: number;
+  /** Chat that gets suspected spam instead of the route's destinations */
+  suspect_chat_id?: string;
+}
+
+export interface SpamPoliciesConfig {
+  policies: { [hostname: string]: SpamPolicy };
+  updatedAt: string;
+}
+
+export interface SpamVerdict {
+  score: number;
+  reasons: string[];
+  action: "deliver" | "suspect" | "drop";
+}
+
+export interface FieldError {
+  field: string;
+  code:
+    | "required"
+    | "too_long"
+    | "invalid_email"
+    | "invalid_tel"
+    | "invalid_number"
+    | "invalid_url"
+    | "invalid_option"
+    /** A built-in field sent to /api/v1/submit as a non-string */
+    | "invalid_type";
+}
+
+/** Declared extra field, in schema order */
+export interface ExtraField {
+  name: string;
+  label: string;
+  value: string;
+}
+
+/**
+ * Sanitized submission handed to delivery channels.
+ */
+export interface Submission {
+  request_id: string;
+  host: string;
+  name: string;
+  email: string;
+  telegram: string;
+  message: string;
+  submitted_at: string;
+  /** Files uploaded with a multipart form */
+  attachments?: File[];
+  /** Non-empty extra fields declared in the host's form schema */
+  fields?: ExtraField[];
+  /** Client IP, kept for spam reports; never forwarded */
+  ip?: string;
+  /** Set when the spam score reached the host's suspect threshold */
+  spam?: { score: number; reasons: string[] };
+  /** Caller-supplied JSON from /api/v1/submit, forwarded to webhooks */
+  metadata?: Record<string, unknown>;
+}
+
+export interface SendResult {
+  success: boolean;
+  error?: string;
+  /** Telegram message ID of the sent text message */
+  message_id?: number;
+  /** Set when the group was migrated to a supergroup */
+  migrated_chat_id?: string;
+  /** Seconds to wait before retrying (Telegram flood control / HTTP 429) */
+  retry_after?: number;
+}
+
+/**
+ * Submission held for a digest or until quiet hours end (see services/digest.ts).
+ */
+export interface HeldSubmission {
+  submission: Omit<Submission, "attachments">;
+  destinations: DestinationRef[];
+  /** Digest entries are merged into one message per Telegram chat */
+  digest: boolean;
+  /** Time zone for the times shown in the digest */
+  timezone?: string;
+  /** Failed release runs so far; `destinations` then lists only the failed ones */
+  attempts?: number;
+  /** Destinations the submission was fanned out to, once some have it */
+  total?: number;
+}
+
+/**
+ * A destination stored for later delivery. Only its label is kept; the
+ * channel is looked up again when sending, so secrets never sit in a
+ * queue or in KV, and rotated tokens apply to retries.
+ */
+export interface DestinationRef {
+  /** Destination label: its name, or its position in the route */
+  destination: string;
+  channel_type: ChannelType;
+  /** Send with disable_notification (quiet hours) */
+  silent?: boolean;
+}
+
+/**
+ * One destination's delivery, queued in outbox mode.
+ * Attachments are never queued (files can't be serialized into a message).
+ */
+export interface OutboxMessage extends DestinationRef {
+  submission: Omit<Submission, "attachments">;
+  /** Number of destinations the submission was fanned out to */
+  total: number;
+}
+
+/**
+ * Triage state of a delivered lead, shared by every chat it went to.
+ */
+export interface LeadState {
+  request_id: string;
+  host: string;
+  email: string;
+  ip?: string;
+  /** Carried over so a suspect-chat destination can be resolved again */
+  spam?: Submission["spam"];
+  /** Destination each chat got the lead through, by chat ID; names its bot */
+  chats?: Record<string, string>;
+  status: "open" | "taken" | "spam";
+  /** Who pressed the button, e.g. "@jane" */
+  handled_by?: string;
+  handled_at?: string;
+}
+
+export type BlocklistType = "ip" | "cidr" | "email" | "domain" | "country" | "asn";
+
+export interface BlocklistEntry {
+  id: string;
+  type: BlocklistType;
+  /** Normalized: lowercase email/domain, uppercase country, canonical IP/CIDR */
+  value: string;
+  /** Why it was added, e.g. "spam report by @jane" */
+  reason?: string;
+  /** Host pattern the entry applies to; all hosts when omitted */
+  host?: string;
+  /** "silent" (default) accepts and drops; "reject" returns 403 blocked */
+  action?: "silent" | "reject";
+  /** The entry stops matching after this time */
+  expires_at?: string;
+  created_at: string;
+}
+
+export interface BlocklistConfig {
+  entries: BlocklistEntry[];
+  updatedAt: string;
+}
+
+/**
+ * Delivery that exhausted its retries, kept in CONFIG for replay.
+ */
+export interface DeadLetter {
+  id: string;
+  message: OutboxMessage;
+  error: string;
+  attempts: number;
+  failed_at: string;
+}
+
+export interface DeliveryStatus {
+  destination: string;
+  channel: ChannelType;
+  ok: boolean;
+  error?: string;
+}
+
+/** "muted": accepted while the host was muted, never delivered */
+export type DeliveryState = "delivered" | "partial" | "failed" | "queued" | "muted" | "spam";
+
+/**
+ * Row of the D1 submission archive, with JSON columns decoded.
+ */
+export interface ArchivedSubmission {
+  id: number;
+  request_id: string;
+  host: string;
+  name: string;
+  email: string;
+  telegram: string;
+  message: string;
+  fields: ExtraField[];
+  attachments: { name: string; type: string; size: number }[];
+  delivery_status: DeliveryState;
+  deliveries: DeliveryStatus[];
+  created_at: string;
+}
+
+export interface SubmissionFilters {
+  /** Exact host, or a pattern with * wildcards */
+  host?: string;
+  /** ISO date/time bounds on created_at (inclusive) */
+  from?: string;
+  to?: string;
+  /** Full-text search on message */
+  q?: string;
+  status?: DeliveryState;
 }
 
 export interface ApiResponse {
@@ -38,13 +525,161 @@ export interface ApiResponse {
   detail?: string;
   request_id?: string;
   duplicate?: boolean;
+  /** Set when some, but not all, destinations failed */
+  partial?: boolean;
+  /** Accepted into the outbox; delivery happens in the background */
+  queued?: boolean;
+  /** Per-destination outcome for routes with several destinations */
+  deliveries?: DeliveryStatus[];
+  /** Field-level errors for validation_failed */
+  fields?: FieldError[];
+  /** Result text for end users, when a locale was requested */
+  message?: string;
 }
 
 export interface RateLimitEntry {
   timestamps: number[];
 }
 
+export interface RateLimitRule {
+  scope: "ip" | "host" | "email" | "auto_reply" | "api_key";
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the next request will be allowed */
+  resetAt: number;
+}
+
 export interface OriginsConfig {
   patterns: string[];
   updatedAt: string;
 }
+
+export interface RoutesConfig {
+  routes: RoutingMap;
+  updatedAt: string;
+}
+
+/**
+ * Admin API permissions. Write scopes include read; "admin" includes everything,
+ * including key management, dead letters and the blocklist.
+ */
+export type AdminScope = "read" | "origins:write" | "routes:write" | "admin";
+
+/**
+ * Issued admin key as stored in KV. Only the SHA-256 of the key is kept.
+ */
+export interface AdminKeyRecord {
+  id: string;
+  label: string;
+  /** First characters of the key, to tell keys apart */
+  prefix: string;
+  hash: string;
+  scopes: AdminScope[];
+  /** Host patterns the key may manage; absent means all hosts */
+  hosts?: string[];
+  created_at: string;
+}
+
+export interface AdminKeysConfig {
+  keys: AdminKeyRecord[];
+  updatedAt: string;
+}
+
+/**
+ * A tenant key for the server-to-server API (/api/v1/submit).
+ */
+export interface ApiKeyRecord {
+  id: string;
+  label: string;
+  /** First characters of the key, to tell keys apart */
+  prefix: string;
+  hash: string;
+  /** HMAC secret for signed requests; kept in plaintext to verify them */
+  signing_secret: string;
+  /** Host or host pattern the key submits for */
+  host: string;
+  created_at: string;
+}
+
+export interface ApiKeysConfig {
+  keys: ApiKeyRecord[];
+  updatedAt: string;
+}
+
+/**
+ * Body of POST /api/v1/submit. Fields declared in the host's form
+ * schema go at the top level, as with /send.
+ */
+export interface ApiSubmitData {
+  /** Required when the key covers a host pattern */
+  host?: string;
+  name?: string;
+  email?: string;
+  telegram?: string;
+  message?: string;
+  /** Free-form JSON object, forwarded to webhooks and templates */
+  metadata?: unknown;
+}
+
+/**
+ * Who is calling the admin API: ADMIN_KEY ("root") or an issued key.
+ */
+export interface AdminIdentity {
+  id: string | null;
+  label: string;
+  scopes: AdminScope[];
+  hosts: string[] | null;
+}
+
+/**
+ * One admin configuration change. Secrets in before/after are redacted.
+ */
+export interface AuditEntry {
+  id: string;
+  at: string;
+  /** Admin key label, "root", or "@user (Telegram)" */
+  actor: string;
+  key_id: string | null;
+  ip: string;
+  /** e.g. "origins.add", "routes.replace", "keys.revoke" */
+  action: string;
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * What happened to a /send request, counted per host.
+ */
+export type MetricOutcome =
+  | "delivered"
+  | "partial"
+  | "failed"
+  | "queued"
+  | "muted"
+  | "duplicate"
+  | "origin_not_allowed"
+  | "rate_limited"
+  | "honeypot"
+  | "too_fast"
+  | "invalid_form_token"
+  | "validation_failed"
+  | "empty_payload"
+  | "blocked"
+  | "attachment_rejected"
+  | "captcha_failed"
+  | "routing_not_configured"
+  | "spam";
+
+export interface MetricCount {
+  host: string;
+  outcome: MetricOutcome;
+  count: number;
+}
@@ -0,0 +1,131 @@
+import type { AttachmentPolicy } from "../types";
+
+/** Telegram Bot API upload limit for documents */
+const TELEGRAM_MAX_FILE_SIZE = 50 * 1024 * 1024;
+/** Telegram media groups hold at most 10 items */
+const TELEGRAM_MAX_FILES = 10;
+
+export const DEFAULT_ATTACHMENT_POLICY: Required<AttachmentPolicy> = {
+  max_files: 5,
+  max_file_size: 10 * 1024 * 1024,
+  allowed_types: [
+    "image/*",
+    "application/pdf",
+    "text/plain",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.*",
+  ],
+};
+
+export interface AttachmentError {
+  error: "attachments_not_allowed" | "too_many_files" | "file_too_large" | "file_type_not_allowed";
+  status: 400 | 413 | 415;
+  detail: string;
+}
+
+/**
+ * Split multipart form entries into string fields and uploaded files.
+ * Empty file inputs (no file chosen) are skipped.
+ */
+export function splitFormData(formData: FormData): {
+  fields: Record<string, string>;
+  files: File[];
+} {
+  const fields: Record<string, string> = {};
+  const files: File[] = [];
+
+  // The default workers-types entry point types entries as strings only,
+  // but the runtime yields File objects for uploads
+  const entries = formData.entries() as unknown as Iterable<[string, string | File]>;
+
+  for (const [key, value] of entries) {
+    if (typeof value === "string") {
+      fields[key] = value;
+    } else if (value.size > 0) {
+      files.push(value);
+    }
+  }
+
+  return { fields, files };
+}
+
+/**
+ * Merge a route's policy with defaults and clamp it to Telegram's limits.
+ */
+export function resolveAttachmentPolicy(
+  policy: AttachmentPolicy
+): Required<AttachmentPolicy> {
+  return {
+    max_files: Math.min(
+      policy.max_files ?? DEFAULT_ATTACHMENT_POLICY.max_files,
+      TELEGRAM_MAX_FILES
+    ),
+    max_file_size: Math.min(
+      policy.max_file_size ?? DEFAULT_ATTACHMENT_POLICY.max_file_size,
+      TELEGRAM_MAX_FILE_SIZE
+    ),
+    allowed_types: policy.allowed_types ?? DEFAULT_ATTACHMENT_POLICY.allowed_types,
+  };
+}
+
+/**
+ * Check uploaded files against the route's attachment policy.
+ * Returns null if all files are acceptable.
+ */
+export function validateAttachments(
+  files: File[],
+  policy: AttachmentPolicy | undefined
+): AttachmentError | null {
+  if (files.length === 0) return null;
+
+  if (!policy) {
+    return {
+      error: "attachments_not_allowed",
+      status: 400,
+      detail: "this form does not accept file uploads",
+    };
+  }
+
+  const limits = resolveAttachmentPolicy(policy);
+
+  if (files.length > limits.max_files) {
+    return {
+      error: "too_many_files",
+      status: 400,
+      detail: `at most ${limits.max_files} files are allowed`,
+    };
+  }
+
+  for (const file of files) {
+    if (file.size > limits.max_file_size) {
+      return {
+        error: "file_too_large",
+        status: 413,
+        detail: `"${file.name}" exceeds ${limits.max_file_size} bytes`,
+      };
+    }
+
+    if (!matchMimeType(file.type, limits.allowed_types)) {
+      return {
+        error: "file_type_not_allowed",
+        status: 415,
+        detail: `"${file.name}" has type "${file.type || "unknown"}"`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Match a MIME type against an allowlist. A trailing "*" matches a prefix.
+ */
+function matchMimeType(type: string, allowed: string[]): boolean {
+  const mime = type.split(";")[0].trim().toLowerCase();
+  if (!mime) return false;
+
+  return allowed.some((pattern) => {
+    const p = pattern.trim().toLowerCase();
+    return p.endsWith("*") ? mime.startsWith(p.slice(0, -1)) : mime === p;
+  });
+}
@@ -19,6 +19,10 @@ export async function corsMiddleware(
     c.header("Access-Control-Allow-Origin", origin);
     c.header("Access-Control-Allow-Headers", "Content-Type,Idempotency-Key,X-Admin-Key");
     c.header("Access-Control-Allow-Methods", "GET,POST,PUT,DELETE,OPTIONS");
+    c.header(
+      "Access-Control-Expose-Headers",
+      "Retry-After,X-RateLimit-Limit,X-RateLimit-Remaining,X-RateLimit-Reset"
+    );
   }
 
   if (c.req.method === "OPTIONS") {
@@ -0,0 +1,50 @@
+/**
+ * Hashing, signing and random helpers on Web Crypto, shared by key
+ * storage, webhook signatures and the various short IDs. Hex output is
+ * lowercase.
+ */
+
+/**
+ * SHA-256 of a UTF-8 string.
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+}
+
+/**
+ * HMAC-SHA256 of `data` under `secret`.
+ */
+export async function hmacHex(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+}
+
+/**
+ * Constant-time string comparison, for hashes and signatures.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  return left.byteLength === right.byteLength && crypto.subtle.timingSafeEqual(left, right);
+}
+
+/**
+ * `bytes` random bytes as hex (twice as many characters).
+ */
+export function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
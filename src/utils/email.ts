@@ -0,0 +1,22 @@
+/**
+ * Loose address check that also rules out header injection:
+ * no whitespace, angle brackets, quotes, commas or semicolons.
+ */
+export function isValidAddress(address: string): boolean {
+  return address.length <= 254 && /^[^\s@<>",;]+@[^\s@<>",;]+\.[^\s@<>",;]+$/.test(address);
+}
+
+/**
+ * "Acme <no-reply@acme.com>" → "no-reply@acme.com"
+ */
+export function addressOf(mailbox: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * An address, or "Display Name <address>", on a single line.
+ */
+export function isValidMailbox(mailbox: string): boolean {
+  return mailbox.length <= 200 && !/[\r\n]/.test(mailbox) && isValidAddress(addressOf(mailbox));
+}
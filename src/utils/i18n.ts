@@ -0,0 +1,167 @@
+import type { ApiResponse, Locale } from "../types";
+
+export const LOCALES: Locale[] = ["en", "ru", "es"];
+
+/** Labels used in the default Telegram message */
+export interface MessageLabels {
+  title: string;
+  origin: string;
+  name: string;
+  email: string;
+  telegram: string;
+  message: string;
+  spam: string;
+  score: string;
+  digest: string;
+  full_text: string;
+}
+
+const MESSAGE_LABELS: Record<Locale, MessageLabels> = {
+  en: {
+    title: "New Contact Request",
+    origin: "Origin",
+    name: "Name",
+    email: "Email",
+    telegram: "Telegram",
+    message: "Message",
+    spam: "Suspected spam",
+    score: "score",
+    digest: "Digest",
+    full_text: "Full text in the attached file",
+  },
+  ru: {
+    title: "Новая заявка",
+    origin: "Сайт",
+    name: "Имя",
+    email: "Email",
+    telegram: "Telegram",
+    message: "Сообщение",
+    spam: "Подозрение на спам",
+    score: "оценка",
+    digest: "Сводка заявок",
+    full_text: "Полный текст — в приложенном файле",
+  },
+  es: {
+    title: "Nueva solicitud de contacto",
+    origin: "Origen",
+    name: "Nombre",
+    email: "Correo",
+    telegram: "Telegram",
+    message: "Mensaje",
+    spam: "Posible spam",
+    score: "puntuación",
+    digest: "Resumen de solicitudes",
+    full_text: "Texto completo en el archivo adjunto",
+  },
+};
+
+/**
+ * Texts for /send results, keyed by error code. "ok" and "duplicate"
+ * cover success; codes without an entry get "internal_error".
+ */
+const API_MESSAGES: Record<Locale, Record<string, string>> = {
+  en: {
+    ok: "Thank you! Your message has been sent.",
+    duplicate: "This message has already been sent.",
+    origin_not_allowed: "This form is not allowed to send messages.",
+    rate_limited: "Too many messages. Please try again later.",
+    too_fast: "The form was sent too quickly. Please try again.",
+    invalid_form_token: "The form has expired. Please reload the page and try again.",
+    form_token_required: "The form has expired. Please reload the page and try again.",
+    validation_failed: "Please check the highlighted fields.",
+    empty_payload: "Please fill in the form before sending.",
+    attachments_not_allowed: "Files can't be attached to this form.",
+    too_many_files: "Too many files attached.",
+    file_too_large: "An attached file is too large.",
+    file_type_not_allowed: "This file type is not allowed.",
+    captcha_failed: "Captcha check failed. Please try again.",
+    blocked: "Your message could not be accepted.",
+    internal_error: "Something went wrong. Please try again later.",
+  },
+  ru: {
+    ok: "Спасибо! Ваше сообщение отправлено.",
+    duplicate: "Это сообщение уже было отправлено.",
+    origin_not_allowed: "Эта форма не может отправлять сообщения.",
+    rate_limited: "Слишком много сообщений. Попробуйте позже.",
+    too_fast: "Форма отправлена слишком быстро. Попробуйте ещё раз.",
+    invalid_form_token: "Срок действия формы истёк. Обновите страницу и попробуйте ещё раз.",
+    form_token_required: "Срок действия формы истёк. Обновите страницу и попробуйте ещё раз.",
+    validation_failed: "Проверьте отмеченные поля.",
+    empty_payload: "Заполните форму перед отправкой.",
+    attachments_not_allowed: "К этой форме нельзя прикреплять файлы.",
+    too_many_files: "Прикреплено слишком много файлов.",
+    file_too_large: "Прикреплённый файл слишком большой.",
+    file_type_not_allowed: "Этот тип файлов не поддерживается.",
+    captcha_failed: "Проверка капчи не пройдена. Попробуйте ещё раз.",
+    blocked: "Ваше сообщение не может быть принято.",
+    internal_error: "Что-то пошло не так. Попробуйте позже.",
+  },
+  es: {
+    ok: "¡Gracias! Tu mensaje ha sido enviado.",
+    duplicate: "Este mensaje ya fue enviado.",
+    origin_not_allowed: "Este formulario no puede enviar mensajes.",
+    rate_limited: "Demasiados mensajes. Inténtalo más tarde.",
+    too_fast: "El formulario se envió demasiado rápido. Inténtalo de nuevo.",
+    invalid_form_token: "El formulario ha caducado. Recarga la página e inténtalo de nuevo.",
+    form_token_required: "El formulario ha caducado. Recarga la página e inténtalo de nuevo.",
+    validation_failed: "Revisa los campos marcados.",
+    empty_payload: "Completa el formulario antes de enviarlo.",
+    attachments_not_allowed: "No se pueden adjuntar archivos a este formulario.",
+    too_many_files: "Demasiados archivos adjuntos.",
+    file_too_large: "Un archivo adjunto es demasiado grande.",
+    file_type_not_allowed: "Este tipo de archivo no está permitido.",
+    captcha_failed: "La verificación captcha falló. Inténtalo de nuevo.",
+    blocked: "Tu mensaje no pudo ser aceptado.",
+    internal_error: "Algo salió mal. Inténtalo más tarde.",
+  },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as string[]).includes(value);
+}
+
+export function messageLabels(locale: Locale = "en"): MessageLabels {
+  return MESSAGE_LABELS[locale];
+}
+
+/**
+ * Human-readable text for a /send result.
+ */
+export function apiMessage(result: ApiResponse, locale: Locale): string {
+  const messages = API_MESSAGES[locale];
+  if (result.status === "ok") return result.duplicate ? messages.duplicate : messages.ok;
+  return messages[result.error || ""] || messages.internal_error;
+}
+
+/**
+ * Pick the response locale: an explicit `lang` ("es", "es-MX") wins,
+ * then the Accept-Language list by quality. Returns null when the client
+ * asked for neither, and "en" when nothing it asked for is supported.
+ */
+export function negotiateLocale(
+  lang: string | undefined,
+  acceptLanguage: string | undefined
+): Locale | null {
+  const requested = primaryTag(lang || "");
+  if (isLocale(requested)) return requested;
+
+  if (!acceptLanguage) return lang ? "en" : null;
+
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return { tag: primaryTag(tag), q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  return ranked.map((entry) => entry.tag).find(isLocale) || "en";
+}
+
+function primaryTag(tag: string): string {
+  return tag.trim().toLowerCase().split("-")[0];
+}
@@ -0,0 +1,157 @@
+/**
+ * IP address and CIDR parsing for blocklist matching.
+ * Addresses are compared as integers; IPv4-mapped IPv6 addresses
+ * ("::ffff:1.2.3.4") are treated as their IPv4 form.
+ */
+
+export interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface ParsedCidr extends ParsedIp {
+  prefix: number;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. Returns null if it isn't one.
+ */
+export function parseIp(input: string): ParsedIp | null {
+  const ip = input.trim();
+  if (ip.includes(":")) {
+    const value = parseIpv6(ip);
+    if (value === null) return null;
+    // ::ffff:0:0/96 carries an IPv4 address
+    if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+    return { version: 6, value };
+  }
+  const value = parseIpv4(ip);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Parse "10.0.0.0/8" or "2001:db8::/32". A bare address is a single-host range.
+ */
+export function parseCidr(input: string): ParsedCidr | null {
+  const [address, prefixText, extra] = input.trim().split("/");
+  if (extra !== undefined) return null;
+
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefixText === undefined) return { ...ip, prefix: bits };
+  if (!/^\d{1,3}$/.test(prefixText)) return null;
+
+  const prefix = Number(prefixText);
+  if (prefix > bits) return null;
+  return { ...ip, prefix };
+}
+
+/**
+ * Canonical text form of a CIDR with host bits cleared, e.g.
+ * "10.1.2.3/8" → "10.0.0.0/8", "2001:DB8:0::/32" → "2001:db8::/32".
+ */
+export function formatCidr(cidr: ParsedCidr): string {
+  const network = cidr.value & mask(cidr);
+  const address =
+    cidr.version === 4 ? formatIpv4(network) : formatIpv6(network);
+  return `${address}/${cidr.prefix}`;
+}
+
+/**
+ * Canonical text form of an address ("::FFFF:1.2.3.4" → "1.2.3.4").
+ */
+export function normalizeIp(input: string): string | null {
+  const ip = parseIp(input);
+  if (!ip) return null;
+  return ip.version === 4 ? formatIpv4(ip.value) : formatIpv6(ip.value);
+}
+
+export function cidrContains(cidr: ParsedCidr, ip: ParsedIp): boolean {
+  if (cidr.version !== ip.version) return false;
+  const m = mask(cidr);
+  return (ip.value & m) === (cidr.value & m);
+}
+
+function mask(cidr: ParsedCidr): bigint {
+  const bits = BigInt(cidr.version === 4 ? 32 : 128);
+  const all = (1n << bits) - 1n;
+  return all ^ ((1n << (bits - BigInt(cidr.prefix))) - 1n);
+}
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  // Drop a zone index ("fe80::1%eth0")
+  let text = ip.split("%")[0].toLowerCase();
+
+  // Trailing embedded IPv4 becomes two hex groups
+  const lastColon = text.lastIndexOf(":");
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const v4 = parseIpv4(tail);
+    if (v4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+function formatIpv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map((shift) => String((value >> shift) & 0xffn)).join(".");
+}
+
+function formatIpv6(value: bigint): string {
+  const groups: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(Number((value >> shift) & 0xffffn));
+  }
+
+  // Collapse the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
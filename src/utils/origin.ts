@@ -18,7 +18,7 @@ export function normalizeHost(origin: string): string {
  * Simple glob-like pattern matching (supports * wildcard).
  * Pattern "*.example.com" matches "sub.example.com" but not "example.com".
  */
-function matchPattern(host: string, pattern: string): boolean {
+export function matchPattern(host: string, pattern: string): boolean {
   if (pattern === "*") return true;
 
   const escaped = pattern
@@ -37,6 +37,25 @@ export function matchOrigin(host: string, allowedOrigins: string[]): boolean {
   return allowedOrigins.some((pattern) => matchPattern(host, pattern));
 }
 
+/**
+ * Look up a host in a map keyed by host patterns.
+ * Exact keys win; otherwise the longest matching wildcard pattern is used,
+ * so "*.shop.example.com" beats "*.example.com" and "*" is the last resort.
+ */
+export function matchHostEntry<T>(host: string, entries: Record<string, T>): T | null {
+  if (Object.prototype.hasOwnProperty.call(entries, host)) return entries[host];
+
+  const wildcards = Object.keys(entries)
+    .filter((pattern) => pattern.includes("*"))
+    .sort((a, b) => b.length - a.length);
+
+  for (const pattern of wildcards) {
+    if (matchPattern(host, pattern)) return entries[pattern];
+  }
+
+  return null;
+}
+
 /**
  * Normalize a single origin pattern.
  * Strips protocol/port if a full URL is provided (common misconfiguration).
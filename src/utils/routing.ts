@@ -0,0 +1,617 @@
+import type {
+  AttachmentPolicy,
+  AutoReplyConfig,
+  BuiltinMaxLengths,
+  CaptchaConfig,
+  CaptchaProviderName,
+  ChannelConfig,
+  DigestConfig,
+  FormTokenPolicy,
+  Locale,
+  QuietHours,
+  RouteConfig,
+  RoutingMap,
+  WebhookChannel,
+} from "../types";
+import { matchHostEntry } from "./origin";
+import { validateTemplate } from "./template";
+import { isLocale } from "./i18n";
+import { isValidTimeZone, parseClock } from "./schedule";
+import { isValidMailbox } from "./email";
+
+export const ROUTES_KEY = "routes";
+
+const MAX_DESTINATIONS = 10;
+
+/** Longest form token lifetime a route may allow (24h) */
+const MAX_FORM_TOKEN_AGE = 86400;
+
+/** Upper bounds for a route's max_lengths */
+const MAX_LENGTH_LIMITS: Required<BuiltinMaxLengths> = {
+  name: 1000,
+  email: 320,
+  telegram: 64,
+  message: 100_000,
+};
+
+/** document_threshold range, in rendered characters */
+const MIN_DOCUMENT_THRESHOLD = 1000;
+const MAX_DOCUMENT_THRESHOLD = 100_000;
+
+const CAPTCHA_PROVIDERS: CaptchaProviderName[] = [
+  "turnstile",
+  "hcaptcha",
+  "recaptcha_v2",
+  "recaptcha_v3",
+];
+
+/**
+ * Parse ROUTING_JSON env var into a routing map.
+ * Host keys are normalized like admin API routes (see normalizeRouteHost).
+ */
+export function parseRoutingJson(envValue?: string): RoutingMap {
+  if (!envValue) return {};
+
+  try {
+    const parsed = JSON.parse(envValue);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+
+    const routing: RoutingMap = {};
+    for (const [host, route] of Object.entries(parsed)) {
+      if (route && typeof route === "object") {
+        routing[normalizeRouteHost(host)] = route as RouteConfig;
+      }
+    }
+    return routing;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the full routing map from KV (dynamic) + env (static).
+ * Dynamic routes from KV take precedence over ROUTING_JSON entries.
+ */
+export async function getRoutingMap(
+  configKv: KVNamespace,
+  envValue?: string
+): Promise<RoutingMap> {
+  const envRouting = parseRoutingJson(envValue);
+
+  try {
+    const raw = await configKv.get(ROUTES_KEY);
+    if (raw) {
+      const config = JSON.parse(raw);
+      if (config.routes && typeof config.routes === "object") {
+        return { ...envRouting, ...config.routes };
+      }
+    }
+  } catch {
+    // Ignore KV errors, fallback to env
+  }
+
+  return envRouting;
+}
+
+/**
+ * Find the route for a host (see matchHostEntry for precedence).
+ */
+export function resolveRoute(host: string, routing: RoutingMap): RouteConfig | null {
+  return matchHostEntry(host, routing);
+}
+
+/**
+ * Validate and normalize a route coming from the admin API.
+ * Returns null if the payload is not a usable RouteConfig.
+ */
+export function normalizeRouteConfig(input: unknown): RouteConfig | null {
+  if (!isObject(input)) return null;
+
+  const route: RouteConfig = {};
+
+  const chatId = parseChatId(input.chat_id);
+  if (chatId === null) return null;
+  if (chatId) route.chat_id = chatId;
+
+  const botToken = parseBotToken(input.bot_token);
+  if (botToken === null) return null;
+  if (botToken) route.bot_token = botToken;
+
+  if (input.channel !== undefined && input.channel !== null) {
+    const channel = normalizeChannelConfig(input.channel);
+    if (!channel) return null;
+    route.channel = channel;
+  }
+
+  if (input.destinations !== undefined && input.destinations !== null) {
+    if (!Array.isArray(input.destinations) || input.destinations.length > MAX_DESTINATIONS) {
+      return null;
+    }
+    const destinations: ChannelConfig[] = [];
+    for (const item of input.destinations) {
+      const destination = normalizeChannelConfig(item);
+      if (!destination) return null;
+      destinations.push(destination);
+    }
+    if (destinations.length > 0) route.destinations = destinations;
+  }
+
+  if (input.template !== undefined && input.template !== null && input.template !== "") {
+    if (typeof input.template !== "string" || validateTemplate(input.template)) return null;
+    route.template = input.template;
+  }
+
+  if (input.attachments !== undefined && input.attachments !== null) {
+    const attachments = normalizeAttachmentPolicy(input.attachments);
+    if (!attachments) return null;
+    route.attachments = attachments;
+  }
+
+  if (input.captcha !== undefined && input.captcha !== null) {
+    const captcha = normalizeCaptchaConfig(input.captcha);
+    if (!captcha) return null;
+    route.captcha = captcha;
+  }
+
+  if (input.form_token !== undefined && input.form_token !== null) {
+    const formToken = normalizeFormTokenPolicy(input.form_token);
+    if (!formToken) return null;
+    route.form_token = formToken;
+  }
+
+  if (input.redirect !== undefined && input.redirect !== null) {
+    if (!isObject(input.redirect)) return null;
+    const successUrl = parseHttpUrl(input.redirect.success_url);
+    if (!successUrl) return null;
+    route.redirect = { success_url: successUrl };
+
+    if (input.redirect.error_url !== undefined && input.redirect.error_url !== "") {
+      const errorUrl = parseHttpUrl(input.redirect.error_url);
+      if (!errorUrl) return null;
+      route.redirect.error_url = errorUrl;
+    }
+  }
+
+  if (input.locale !== undefined && input.locale !== null && input.locale !== "") {
+    if (!isLocale(input.locale)) return null;
+    route.locale = input.locale;
+  }
+
+  if (input.digest !== undefined && input.digest !== null) {
+    const digest = normalizeDigestConfig(input.digest);
+    if (!digest) return null;
+    route.digest = digest;
+  }
+
+  if (input.quiet_hours !== undefined && input.quiet_hours !== null) {
+    const quietHours = normalizeQuietHours(input.quiet_hours);
+    if (!quietHours) return null;
+    route.quiet_hours = quietHours;
+  }
+
+  if (input.auto_reply !== undefined && input.auto_reply !== null) {
+    const autoReply = normalizeAutoReply(input.auto_reply);
+    if (!autoReply) return null;
+    route.auto_reply = autoReply;
+  }
+
+  if (input.max_lengths !== undefined && input.max_lengths !== null) {
+    if (!isObject(input.max_lengths)) return null;
+    const maxLengths: BuiltinMaxLengths = {};
+    for (const [key, value] of Object.entries(input.max_lengths)) {
+      if (!(key in MAX_LENGTH_LIMITS)) return null;
+      const field = key as keyof BuiltinMaxLengths;
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LENGTH_LIMITS[field]) return null;
+      maxLengths[field] = limit;
+    }
+    route.max_lengths = maxLengths;
+  }
+
+  if (input.document_threshold !== undefined && input.document_threshold !== null) {
+    const threshold = parseDocumentThreshold(input.document_threshold);
+    if (!threshold) return null;
+    route.document_threshold = threshold;
+  }
+
+  return route;
+}
+
+/**
+ * Validate a delivery channel definition.
+ * Webhook URLs must be https; redacted values from GET are rejected.
+ */
+export function normalizeChannelConfig(input: unknown): ChannelConfig | null {
+  if (!isObject(input)) return null;
+
+  const name = typeof input.name === "string" ? input.name.trim().slice(0, 64) : "";
+  const base = name ? { name } : {};
+
+  switch (input.type) {
+    case "telegram": {
+      const chatId = parseChatId(input.chat_id);
+      const botToken = parseBotToken(input.bot_token);
+      if (chatId === null || botToken === null) return null;
+
+      let threadId: number | undefined;
+      if (input.message_thread_id !== undefined && input.message_thread_id !== null) {
+        threadId = Number(input.message_thread_id);
+        if (!Number.isInteger(threadId) || threadId <= 0) return null;
+      }
+
+      let template: string | undefined;
+      if (input.template !== undefined && input.template !== null && input.template !== "") {
+        if (typeof input.template !== "string" || validateTemplate(input.template)) return null;
+        template = input.template;
+      }
+
+      if (
+        input.disable_notification !== undefined &&
+        typeof input.disable_notification !== "boolean"
+      ) {
+        return null;
+      }
+
+      let documentThreshold: number | undefined;
+      if (input.document_threshold !== undefined && input.document_threshold !== null) {
+        documentThreshold = parseDocumentThreshold(input.document_threshold) ?? undefined;
+        if (!documentThreshold) return null;
+      }
+
+      let locale: Locale | undefined;
+      if (input.locale !== undefined && input.locale !== null && input.locale !== "") {
+        if (!isLocale(input.locale)) return null;
+        locale = input.locale;
+      }
+
+      return {
+        ...base,
+        type: "telegram",
+        ...(chatId ? { chat_id: chatId } : {}),
+        ...(botToken ? { bot_token: botToken } : {}),
+        ...(threadId ? { message_thread_id: threadId } : {}),
+        ...(template ? { template } : {}),
+        ...(locale ? { locale } : {}),
+        ...(input.disable_notification ? { disable_notification: true } : {}),
+        ...(documentThreshold ? { document_threshold: documentThreshold } : {}),
+      };
+    }
+    case "slack": {
+      const webhookUrl = parseHttpsUrl(input.webhook_url);
+      if (!webhookUrl) return null;
+      return { ...base, type: "slack", webhook_url: webhookUrl };
+    }
+    case "discord": {
+      const webhookUrl = parseHttpsUrl(input.webhook_url);
+      if (!webhookUrl) return null;
+      const username = typeof input.username === "string" ? input.username.trim() : "";
+      return {
+        ...base,
+        type: "discord",
+        webhook_url: webhookUrl,
+        ...(username ? { username: username.slice(0, 80) } : {}),
+      };
+    }
+    case "webhook": {
+      const url = parseHttpsUrl(input.url);
+      if (!url) return null;
+
+      const channel: WebhookChannel = { ...base, type: "webhook", url };
+
+      if (input.headers !== undefined) {
+        if (!isObject(input.headers)) return null;
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(input.headers)) {
+          if (typeof value !== "string" || isRedacted(value)) return null;
+          headers[name] = value;
+        }
+        channel.headers = headers;
+      }
+
+      if (input.secret !== undefined && input.secret !== "") {
+        if (typeof input.secret !== "string" || isRedacted(input.secret)) return null;
+        channel.secret = input.secret;
+      }
+
+      return channel;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a route's attachment policy. Omitted limits use the defaults.
+ */
+function normalizeAttachmentPolicy(input: unknown): AttachmentPolicy | null {
+  if (!isObject(input)) return null;
+
+  const policy: AttachmentPolicy = {};
+
+  for (const key of ["max_files", "max_file_size"] as const) {
+    if (input[key] === undefined) continue;
+    const value = Number(input[key]);
+    if (!Number.isInteger(value) || value <= 0) return null;
+    policy[key] = value;
+  }
+
+  if (input.allowed_types !== undefined) {
+    if (
+      !Array.isArray(input.allowed_types) ||
+      !input.allowed_types.every((t) => typeof t === "string" && t.includes("/"))
+    ) {
+      return null;
+    }
+    policy.allowed_types = input.allowed_types.map((t: string) => t.trim().toLowerCase());
+  }
+
+  return policy;
+}
+
+/**
+ * Validate a route's captcha settings from the admin API.
+ * Redacted secrets from GET are rejected.
+ */
+function normalizeCaptchaConfig(input: unknown): CaptchaConfig | null {
+  if (!isObject(input)) return null;
+
+  const provider = CAPTCHA_PROVIDERS.find((name) => name === input.provider);
+  if (!provider) return null;
+  if (typeof input.secret !== "string" || !input.secret.trim() || isRedacted(input.secret)) {
+    return null;
+  }
+
+  const config: CaptchaConfig = { provider, secret: input.secret.trim() };
+
+  if (input.site_key !== undefined && input.site_key !== "") {
+    if (typeof input.site_key !== "string" || !/^[\w-]{1,100}$/.test(input.site_key)) return null;
+    config.site_key = input.site_key;
+  }
+
+  if (input.hostname !== undefined && input.hostname !== "") {
+    if (typeof input.hostname !== "string" || !/^[a-z0-9.*-]+$/i.test(input.hostname.trim())) {
+      return null;
+    }
+    config.hostname = input.hostname.trim().toLowerCase();
+  }
+
+  if (input.action !== undefined && input.action !== "") {
+    if (typeof input.action !== "string" || input.action.length > 64) return null;
+    config.action = input.action;
+  }
+
+  if (input.min_score !== undefined) {
+    const score = Number(input.min_score);
+    if (config.provider !== "recaptcha_v3" || !(score >= 0 && score <= 1)) return null;
+    config.min_score = score;
+  }
+
+  return config;
+}
+
+/**
+ * Validate a route's form token settings. Ages are in seconds.
+ */
+function normalizeFormTokenPolicy(input: unknown): FormTokenPolicy | null {
+  if (!isObject(input)) return null;
+
+  const policy: FormTokenPolicy = {};
+
+  if (input.required !== undefined) {
+    if (typeof input.required !== "boolean") return null;
+    policy.required = input.required;
+  }
+
+  for (const key of ["min_age", "max_age"] as const) {
+    if (input[key] === undefined) continue;
+    const value = Number(input[key]);
+    if (!Number.isFinite(value) || value < 0 || value > MAX_FORM_TOKEN_AGE) return null;
+    policy[key] = value;
+  }
+
+  if ((policy.min_age ?? 0) >= (policy.max_age ?? MAX_FORM_TOKEN_AGE)) return null;
+
+  return policy;
+}
+
+function parseDocumentThreshold(value: unknown): number | null {
+  const threshold = Number(value);
+  return Number.isInteger(threshold) &&
+    threshold >= MIN_DOCUMENT_THRESHOLD &&
+    threshold <= MAX_DOCUMENT_THRESHOLD
+    ? threshold
+    : null;
+}
+
+/**
+ * Validate a route's digest schedule.
+ */
+function normalizeDigestConfig(input: unknown): DigestConfig | null {
+  if (!isObject(input)) return null;
+  if (input.schedule !== "hourly" && input.schedule !== "daily") return null;
+
+  const digest: DigestConfig = { schedule: input.schedule };
+
+  if (input.hour !== undefined) {
+    const hour = Number(input.hour);
+    if (input.schedule !== "daily" || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+      return null;
+    }
+    digest.hour = hour;
+  }
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimeZone(input.timezone)) return null;
+    digest.timezone = input.timezone;
+  }
+
+  return digest;
+}
+
+/**
+ * Validate a quiet-hours window ("HH:MM" local times, start ≠ end).
+ */
+function normalizeQuietHours(input: unknown): QuietHours | null {
+  if (!isObject(input)) return null;
+
+  const start = parseClock(input.start);
+  const end = parseClock(input.end);
+  if (start === null || end === null || start === end) return null;
+
+  const quiet: QuietHours = { start: input.start as string, end: input.end as string };
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimeZone(input.timezone)) return null;
+    quiet.timezone = input.timezone;
+  }
+
+  if (input.mode !== undefined) {
+    if (input.mode !== "hold" && input.mode !== "silent") return null;
+    quiet.mode = input.mode;
+  }
+
+  return quiet;
+}
+
+/**
+ * Validate a route's auto-reply: subject and body templates, optional
+ * sender and Reply-To mailboxes.
+ */
+function normalizeAutoReply(input: unknown): AutoReplyConfig | null {
+  if (!isObject(input)) return null;
+
+  const { subject, body } = input;
+  if (typeof subject !== "string" || !subject.trim() || subject.length > 200) return null;
+  if (typeof body !== "string" || !body.trim()) return null;
+  if (validateTemplate(subject) || validateTemplate(body)) return null;
+
+  const autoReply: AutoReplyConfig = { subject, body };
+
+  for (const key of ["from", "reply_to"] as const) {
+    const value = input[key];
+    if (value === undefined || value === "") continue;
+    if (typeof value !== "string" || !isValidMailbox(value.trim())) return null;
+    autoReply[key] = value.trim();
+  }
+
+  return autoReply;
+}
+
+/**
+ * Normalize a route host key ("www.Example.com " → "example.com").
+ * "www." is dropped like normalizeHost does for the submitting origin,
+ * otherwise such a route could never match.
+ */
+export function normalizeRouteHost(host: string): string {
+  return String(host || "").trim().toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Hide secrets when routes are returned from the admin API.
+ * "123456:ABC-DEF" → "123456:***", webhook URLs keep only their origin.
+ */
+export function redactRoutes(routing: RoutingMap): RoutingMap {
+  const redacted: RoutingMap = {};
+  for (const [host, route] of Object.entries(routing)) {
+    const copy: RouteConfig = { ...route };
+    if (copy.bot_token) copy.bot_token = redactToken(copy.bot_token);
+    if (copy.channel) copy.channel = redactChannel(copy.channel);
+    if (copy.destinations) copy.destinations = copy.destinations.map(redactChannel);
+    if (copy.captcha) copy.captcha = { ...copy.captcha, secret: "***" };
+    redacted[host] = copy;
+  }
+  return redacted;
+}
+
+/**
+ * One channel with its secrets hidden, as in redactRoutes.
+ */
+export function redactChannel(channel: ChannelConfig): ChannelConfig {
+  switch (channel.type) {
+    case "telegram":
+      return channel.bot_token
+        ? { ...channel, bot_token: redactToken(channel.bot_token) }
+        : { ...channel };
+    case "slack":
+    case "discord":
+      return { ...channel, webhook_url: redactUrl(channel.webhook_url) };
+    case "webhook":
+      return {
+        ...channel,
+        ...(channel.headers
+          ? {
+              headers: Object.fromEntries(
+                Object.keys(channel.headers).map((name) => [name, "***"])
+              ),
+            }
+          : {}),
+        ...(channel.secret ? { secret: "***" } : {}),
+      };
+  }
+}
+
+function redactToken(token: string): string {
+  return `${token.split(":")[0]}:***`;
+}
+
+function redactUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/***`;
+  } catch {
+    return "***";
+  }
+}
+
+function isRedacted(value: string): boolean {
+  return value.endsWith("***");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * undefined = not provided, null = invalid.
+ */
+function parseChatId(value: unknown): string | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  const chatId = String(value).trim();
+  if (!/^-?\d+$/.test(chatId) && !/^@\w+$/.test(chatId)) return null;
+  return chatId;
+}
+
+/**
+ * undefined = not provided, null = invalid.
+ * Redacted tokens echoed back from GET /admin/routes are rejected.
+ */
+function parseBotToken(value: unknown): string | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  const botToken = String(value).trim();
+  if (!botToken.includes(":") || isRedacted(botToken)) return null;
+  return botToken;
+}
+
+/**
+ * Redirect pages may be plain http, e.g. on a local dev site.
+ */
+function parseHttpUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseHttpsUrl(value: unknown): string | null {
+  if (typeof value !== "string" || isRedacted(value)) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,3 +1,6 @@
+import type { ExtraField, Locale } from "../types";
+import { messageLabels } from "./i18n";
+
 /**
  * Sanitize and normalize Telegram username from various formats.
  */
@@ -18,28 +21,35 @@ export function trimLimit(value: string | undefined, maxLen: number): string {
 }
 
 /**
- * Build the HTML message to send to Telegram.
+ * Build the HTML message to send to Telegram, with labels in the given locale.
  */
 export function buildMessageText(
   name: string,
   email: string,
   telegram: string,
   message: string,
-  originHost: string
+  originHost: string,
+  extraFields: ExtraField[] = [],
+  locale: Locale = "en"
 ): string {
+  const labels = messageLabels(locale);
   const lines: string[] = [
-    "<b>New Contact Request</b>",
-    `<b>Origin:</b> ${originHost || "-"}`,
-    `<b>Name:</b> ${escapeHtml(name) || "-"}`,
-    `<b>Email:</b> ${escapeHtml(email) || "-"}`,
+    `<b>${labels.title}</b>`,
+    `<b>${labels.origin}:</b> ${originHost || "-"}`,
+    `<b>${labels.name}:</b> ${escapeHtml(name) || "-"}`,
+    `<b>${labels.email}:</b> ${escapeHtml(email) || "-"}`,
   ];
 
   if (telegram) {
-    lines.push(`<b>Telegram:</b> https://t.me/${escapeHtml(telegram)}`);
+    lines.push(`<b>${labels.telegram}:</b> https://t.me/${escapeHtml(telegram)}`);
+  }
+
+  for (const field of extraFields) {
+    lines.push(`<b>${escapeHtml(field.label)}:</b> ${escapeHtml(field.value)}`);
   }
 
   if (message) {
-    lines.push("<b>Message:</b>");
+    lines.push(`<b>${labels.message}:</b>`);
     lines.push(escapeHtml(message));
   }
 
@@ -49,7 +59,7 @@ export function buildMessageText(
 /**
  * Escape HTML special characters for Telegram HTML parse mode.
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
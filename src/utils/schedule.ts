@@ -0,0 +1,106 @@
+import type { DigestConfig, QuietHours } from "../types";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * "22:30" → minutes since midnight, or null.
+ */
+export function parseClock(value: unknown): number | null {
+  const match = typeof value === "string" ? /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * When the next digest is due: the next top of the hour, or the next
+ * occurrence of the configured local hour.
+ */
+export function nextDigestAt(digest: DigestConfig, now: number): number {
+  const timeZone = digest.timezone || "UTC";
+  const wall = wallClock(now, timeZone);
+  let next: number;
+
+  if (digest.schedule === "hourly") {
+    next = Math.floor(wall / HOUR) * HOUR + HOUR;
+  } else {
+    next = Math.floor(wall / DAY) * DAY + (digest.hour ?? 9) * HOUR;
+    if (next <= wall) next += DAY;
+  }
+
+  return toInstant(next, timeZone);
+}
+
+/**
+ * End of the quiet window `at` falls into, or null outside the window.
+ * Windows may cross midnight ("22:00"–"08:00").
+ */
+export function quietHoursEnd(quiet: QuietHours, at: number): number | null {
+  const start = parseClock(quiet.start);
+  const end = parseClock(quiet.end);
+  if (start === null || end === null || start === end) return null;
+
+  const timeZone = quiet.timezone || "UTC";
+  const wall = wallClock(at, timeZone);
+  const minute = Math.floor((wall % DAY) / MINUTE);
+  const inside = start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  if (!inside) return null;
+
+  let next = Math.floor(wall / DAY) * DAY + end * MINUTE;
+  if (next <= wall) next += DAY;
+  return toInstant(next, timeZone);
+}
+
+/**
+ * Local date and time in the zone, as if it were UTC milliseconds.
+ */
+function wallClock(at: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(at).map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    at % 1000
+  );
+}
+
+/**
+ * Inverse of wallClock. The second pass corrects the offset when a DST
+ * change falls between the guess and the result.
+ */
+function toInstant(wall: number, timeZone: string): number {
+  let at = wall - (wallClock(wall, timeZone) - wall);
+  at = wall - (wallClock(at, timeZone) - at);
+  return at;
+}
@@ -0,0 +1,228 @@
+import type {
+  BuiltinMaxLengths,
+  ExtraField,
+  FieldError,
+  FieldSchema,
+  FieldType,
+  FormSchema,
+  FormSchemasConfig,
+} from "../types";
+import { matchHostEntry } from "./origin";
+
+export const SCHEMAS_KEY = "form_schemas";
+
+/** Fields every form already has; a schema may tighten their rules */
+export const BUILTIN_FIELDS = ["name", "email", "telegram", "message"];
+
+/** Longer built-in values are cut by /send; routes can override (max_lengths) */
+export const BUILTIN_MAX_LENGTHS: Required<BuiltinMaxLengths> = {
+  name: 256,
+  email: 256,
+  telegram: 64,
+  message: 5000,
+};
+
+/** Fields used by spam protection that can't be redeclared */
+const RESERVED_FIELDS = [
+  "website",
+  "ts",
+  "cf_turnstile_response",
+  "hcaptcha_response",
+  "recaptcha_response",
+  "form_token",
+  "lang",
+];
+
+const FIELD_TYPES: FieldType[] = [
+  "text",
+  "textarea",
+  "email",
+  "tel",
+  "number",
+  "url",
+  "select",
+  "checkbox",
+];
+
+const MAX_FIELDS = 30;
+const DEFAULT_MAX_LENGTH = 1000;
+/** Upper bound for a field's max_length, the largest route max_lengths allows */
+const MAX_FIELD_LENGTH = 100_000;
+const CHECKED_VALUES = ["on", "true", "1", "yes"];
+
+/**
+ * Get the form schema for a host from KV, or null if none is declared.
+ */
+export async function getFormSchema(
+  configKv: KVNamespace,
+  host: string
+): Promise<FormSchema | null> {
+  const config = await getFormSchemasConfig(configKv);
+  if (!config) return null;
+  return matchHostEntry(host, config.schemas);
+}
+
+/**
+ * Get all form schemas from KV.
+ */
+export async function getFormSchemasConfig(
+  configKv: KVNamespace
+): Promise<FormSchemasConfig | null> {
+  try {
+    const raw = await configKv.get(SCHEMAS_KEY);
+    if (!raw) return null;
+    const config = JSON.parse(raw);
+    return config.schemas && typeof config.schemas === "object" ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate submitted values against a schema.
+ * Returns field-level errors plus the declared extra fields that have a value.
+ * Built-in fields without their own max_length keep the route's limits.
+ */
+export function validateFields(
+  data: Record<string, unknown>,
+  schema: FormSchema,
+  maxLengths: BuiltinMaxLengths = BUILTIN_MAX_LENGTHS
+): { errors: FieldError[]; extras: ExtraField[] } {
+  const builtinMaxLengths: Record<string, number> = { ...BUILTIN_MAX_LENGTHS, ...maxLengths };
+  const errors: FieldError[] = [];
+  const extras: ExtraField[] = [];
+
+  for (const field of schema.fields) {
+    const value = readValue(data[field.name], field.type);
+    const error = checkValue(
+      value,
+      field,
+      field.max_length || builtinMaxLengths[field.name] || DEFAULT_MAX_LENGTH
+    );
+
+    if (error) {
+      errors.push({ field: field.name, code: error });
+      continue;
+    }
+
+    if (value && !BUILTIN_FIELDS.includes(field.name)) {
+      extras.push({ name: field.name, label: field.label || field.name, value });
+    }
+  }
+
+  return { errors, extras };
+}
+
+function readValue(raw: unknown, type: FieldType): string {
+  if (raw === undefined || raw === null) return "";
+
+  if (type === "checkbox") {
+    const checked = raw === true || CHECKED_VALUES.includes(String(raw).trim().toLowerCase());
+    return checked ? "Yes" : "";
+  }
+
+  if (Array.isArray(raw)) return raw.map(String).join(", ").trim();
+  return String(raw).trim();
+}
+
+function checkValue(
+  value: string,
+  field: FieldSchema,
+  maxLength: number
+): FieldError["code"] | null {
+  if (!value) {
+    return field.required ? "required" : null;
+  }
+
+  if (value.length > maxLength) {
+    return "too_long";
+  }
+
+  switch (field.type) {
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : "invalid_email";
+    case "tel":
+      return /^\+?[\d\s().-]{5,}$/.test(value) ? null : "invalid_tel";
+    case "number":
+      return Number.isFinite(Number(value)) ? null : "invalid_number";
+    case "url":
+      return isHttpUrl(value) ? null : "invalid_url";
+    case "select":
+      return (field.options || []).includes(value) ? null : "invalid_option";
+    default:
+      return null;
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a schema coming from the admin API.
+ * Returns null if the payload is not a usable FormSchema.
+ */
+export function normalizeFormSchema(input: unknown): FormSchema | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+
+  const rawFields = (input as { fields?: unknown }).fields;
+  if (!Array.isArray(rawFields) || rawFields.length > MAX_FIELDS) return null;
+
+  const fields: FieldSchema[] = [];
+  const seen = new Set<string>();
+
+  for (const item of rawFields) {
+    const field = normalizeField(item);
+    if (!field || seen.has(field.name)) return null;
+    seen.add(field.name);
+    fields.push(field);
+  }
+
+  return { fields };
+}
+
+function normalizeField(input: unknown): FieldSchema | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+
+  const raw = input as Record<string, unknown>;
+  const name = String(raw.name || "").trim();
+
+  if (!/^[a-z][a-z0-9_]{0,31}$/i.test(name) || RESERVED_FIELDS.includes(name)) {
+    return null;
+  }
+
+  const type = (raw.type || "text") as FieldType;
+  if (!FIELD_TYPES.includes(type)) return null;
+
+  const field: FieldSchema = { name, type };
+
+  if (typeof raw.label === "string" && raw.label.trim()) {
+    field.label = raw.label.trim().slice(0, 64);
+  }
+
+  if (raw.required) field.required = true;
+
+  if (raw.max_length !== undefined) {
+    const maxLength = Number(raw.max_length);
+    if (!Number.isInteger(maxLength) || maxLength <= 0 || maxLength > MAX_FIELD_LENGTH) return null;
+    field.max_length = maxLength;
+  }
+
+  if (type === "select") {
+    if (
+      !Array.isArray(raw.options) ||
+      raw.options.length === 0 ||
+      !raw.options.every((o) => typeof o === "string")
+    ) {
+      return null;
+    }
+    field.options = raw.options.map((o: string) => o.trim());
+  }
+
+  return field;
+}
@@ -0,0 +1,200 @@
+import type { Submission } from "../types";
+import { escapeHtml } from "./sanitize";
+
+/**
+ * Minimal placeholder syntax for Telegram HTML templates:
+ *
+ *   {{name}}              value, HTML-escaped
+ *   {{name|-}}            value, or the fallback when empty
+ *   {{#telegram}}…{{/telegram}}   block rendered only when the value is set
+ *   {{^telegram}}…{{/telegram}}   block rendered only when the value is empty
+ *
+ * Template text itself is trusted (written by admins); only values are escaped.
+ */
+
+const MAX_TEMPLATE_LENGTH = 4000;
+const TAG = /\{\{\s*([#^/]?)\s*([a-z_][a-z0-9_]*)\s*(?:\|([^}]*))?\}\}/gi;
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "var"; name: string; fallback: string }
+  | { kind: "section"; name: string; inverted: boolean; children: Node[] };
+
+export const SAMPLE_SUBMISSION: Submission = {
+  request_id: "3f2a9c1e7b",
+  host: "example.com",
+  name: "Jane Doe",
+  email: "jane@example.com",
+  telegram: "janedoe",
+  message: "Hi! I'd like a quote for a new website.\nBudget is around $5k.",
+  submitted_at: "2024-12-01T09:30:00.000Z",
+  fields: [
+    { name: "company", label: "Company", value: "Acme Inc." },
+    { name: "phone", label: "Phone", value: "+1 555 0100" },
+  ],
+};
+
+/**
+ * Render a template against a submission. "text" leaves values unescaped,
+ * for plain-text emails.
+ */
+export function renderTemplate(
+  template: string,
+  submission: Submission,
+  format: "html" | "text" = "html"
+): string {
+  const nodes = parseTemplate(template);
+  const escape = format === "html" ? escapeHtml : (value: string) => value;
+  return renderNodes(
+    nodes,
+    templateValues(submission),
+    templateBlocks(submission, format),
+    escape
+  ).trim();
+}
+
+/**
+ * Check a template for syntax errors.
+ * Returns an error description, or null if the template is valid.
+ */
+export function validateTemplate(template: string): string | null {
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `template exceeds ${MAX_TEMPLATE_LENGTH} characters`;
+  }
+
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+/**
+ * Plain values available as placeholders (escaped on output).
+ */
+function templateValues(submission: Submission): Record<string, string> {
+  const values: Record<string, string> = {
+    host: submission.host,
+    // "shop.example.com" → "shop_example_com", usable as a #hashtag
+    host_tag: submission.host.replace(/[^a-z0-9_]+/gi, "_"),
+    name: submission.name,
+    email: submission.email,
+    telegram: submission.telegram,
+    telegram_link: submission.telegram ? `https://t.me/${submission.telegram}` : "",
+    message: submission.message,
+    request_id: submission.request_id,
+    date: formatDate(submission.submitted_at),
+  };
+
+  for (const field of submission.fields || []) {
+    if (!(field.name in values)) values[field.name] = field.value;
+  }
+
+  // API metadata: {"order_id": 42} → {{meta_order_id}}; objects as JSON
+  for (const [key, value] of Object.entries(submission.metadata || {})) {
+    if (!/^[a-z0-9_]+$/i.test(key) || value === null || value === undefined) continue;
+    values[`meta_${key}`] = typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+
+  return values;
+}
+
+/**
+ * Pre-rendered blocks (inserted as-is; values inside are escaped).
+ */
+function templateBlocks(
+  submission: Submission,
+  format: "html" | "text"
+): Record<string, string> {
+  return {
+    fields: (submission.fields || [])
+      .map((f) =>
+        format === "html"
+          ? `<b>${escapeHtml(f.label)}:</b> ${escapeHtml(f.value)}`
+          : `${f.label}: ${f.value}`
+      )
+      .join("\n"),
+  };
+}
+
+function parseTemplate(template: string): Node[] {
+  const root: Node[] = [];
+  const stack: { name: string; children: Node[] }[] = [{ name: "", children: root }];
+  let last = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    const [tag, sigil, name, fallback] = match;
+    const current = stack[stack.length - 1].children;
+
+    if (match.index! > last) {
+      current.push({ kind: "text", text: template.slice(last, match.index) });
+    }
+    last = match.index! + tag.length;
+
+    if (sigil === "#" || sigil === "^") {
+      const section: Node = { kind: "section", name, inverted: sigil === "^", children: [] };
+      current.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === "/") {
+      if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+        throw new Error(`unexpected {{/${name}}}`);
+      }
+      stack.pop();
+    } else {
+      current.push({ kind: "var", name, fallback: fallback?.trim() ?? "" });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`unclosed {{#${stack[stack.length - 1].name}}}`);
+  }
+
+  if (last < template.length) {
+    root.push({ kind: "text", text: template.slice(last) });
+  }
+
+  return root;
+}
+
+function renderNodes(
+  nodes: Node[],
+  values: Record<string, string>,
+  blocks: Record<string, string>,
+  escape: (value: string) => string
+): string {
+  let out = "";
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "var": {
+        if (node.name in blocks) {
+          out += blocks[node.name] || node.fallback;
+        } else {
+          const value = values[node.name] || "";
+          out += value ? escape(value) : node.fallback;
+        }
+        break;
+      }
+      case "section": {
+        const present = !!(values[node.name] || blocks[node.name]);
+        if (present !== node.inverted) {
+          out += renderNodes(node.children, values, blocks, escape);
+        }
+        break;
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * "2024-12-01T09:30:00.000Z" → "2024-12-01 09:30 UTC"
+ */
+function formatDate(iso: string): string {
+  return iso ? `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC` : "";
+}
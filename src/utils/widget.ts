@@ -0,0 +1,214 @@
+import type {
+  BuiltinMaxLengths,
+  FieldType,
+  FormSchema,
+  WidgetConfig,
+  WidgetTheme,
+  WidgetsConfig,
+} from "../types";
+import { matchHostEntry } from "./origin";
+import { BUILTIN_FIELDS, BUILTIN_MAX_LENGTHS } from "./schema";
+
+export const WIDGETS_KEY = "widgets";
+
+/** A form field as rendered by the widget */
+export interface WidgetField {
+  name: string;
+  type: FieldType;
+  label: string;
+  required: boolean;
+  max_length?: number;
+  options?: string[];
+}
+
+const BUILTIN_TYPES: Record<string, FieldType> = {
+  name: "text",
+  email: "email",
+  telegram: "text",
+  message: "textarea",
+};
+
+const BUILTIN_LABELS: Record<string, string> = {
+  name: "Name",
+  email: "Email",
+  telegram: "Telegram",
+  message: "Message",
+};
+
+const COLOR_KEYS = ["primary", "background", "text", "border"] as const;
+const MAX_FIELDS = 30;
+
+/**
+ * Get the widget settings for a host from KV, or null if none are set.
+ */
+export async function getWidgetConfig(
+  configKv: KVNamespace,
+  host: string
+): Promise<WidgetConfig | null> {
+  const config = await getWidgetsConfig(configKv);
+  if (!config) return null;
+  return matchHostEntry(host, config.widgets);
+}
+
+/**
+ * Get all widget settings from KV.
+ */
+export async function getWidgetsConfig(
+  configKv: KVNamespace
+): Promise<WidgetsConfig | null> {
+  try {
+    const raw = await configKv.get(WIDGETS_KEY);
+    if (!raw) return null;
+    const config = JSON.parse(raw);
+    return config.widgets && typeof config.widgets === "object" ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fields the widget renders, combining the widget settings with the
+ * host's schema. Without a field list: name, email, (telegram if the
+ * schema declares it), the schema's extra fields, then message.
+ * Built-in fields get the same length limits as /send applies.
+ */
+export function buildWidgetFields(
+  widget: WidgetConfig | null,
+  schema: FormSchema | null,
+  maxLengths: BuiltinMaxLengths = {}
+): WidgetField[] {
+  const builtinMaxLengths: Record<string, number> = { ...BUILTIN_MAX_LENGTHS, ...maxLengths };
+  const declared = new Map((schema?.fields || []).map((field) => [field.name, field]));
+  const names = widget?.fields || [
+    "name",
+    "email",
+    ...(declared.has("telegram") ? ["telegram"] : []),
+    ...[...declared.keys()].filter((name) => !BUILTIN_FIELDS.includes(name)),
+    "message",
+  ];
+
+  return names
+    .filter((name) => BUILTIN_FIELDS.includes(name) || declared.has(name))
+    .map((name) => {
+      const field = declared.get(name);
+      const maxLength = field?.max_length || builtinMaxLengths[name];
+      return {
+        name,
+        type: field?.type || BUILTIN_TYPES[name],
+        label: widget?.labels?.[name] || field?.label || BUILTIN_LABELS[name] || name,
+        // Without a schema the message is the one field worth insisting on
+        required: field ? !!field.required : !schema && name === "message",
+        ...(maxLength ? { max_length: maxLength } : {}),
+        ...(field?.options ? { options: field.options } : {}),
+      };
+    });
+}
+
+/**
+ * Validate widget settings from the admin API.
+ * Returns an error description for bad input.
+ */
+export function normalizeWidgetConfig(input: unknown): WidgetConfig | string {
+  if (!isObject(input)) return "widget must be an object";
+
+  const widget: WidgetConfig = {};
+
+  const texts = [
+    ["title", 100],
+    ["submit_label", 40],
+    ["success_message", 300],
+  ] as const;
+  for (const [key, max] of texts) {
+    if (input[key] === undefined || input[key] === "") continue;
+    if (typeof input[key] !== "string" || input[key].length > max) {
+      return `${key} must be a string of at most ${max} characters`;
+    }
+    widget[key] = input[key];
+  }
+
+  if (input.fields !== undefined) {
+    if (
+      !Array.isArray(input.fields) ||
+      input.fields.length === 0 ||
+      input.fields.length > MAX_FIELDS ||
+      !input.fields.every((name) => typeof name === "string" && /^[a-z][a-z0-9_]{0,31}$/i.test(name)) ||
+      new Set(input.fields).size !== input.fields.length
+    ) {
+      return `fields must be a list of 1-${MAX_FIELDS} distinct field names`;
+    }
+    widget.fields = input.fields;
+  }
+
+  for (const [key, max] of [
+    ["labels", 64],
+    ["messages", 300],
+  ] as const) {
+    if (input[key] === undefined) continue;
+    const map = normalizeTextMap(input[key], max);
+    if (!map) return `${key} must map names to strings of at most ${max} characters`;
+    widget[key] = map;
+  }
+
+  if (input.theme !== undefined) {
+    const theme = normalizeTheme(input.theme);
+    if (typeof theme === "string") return theme;
+    widget.theme = theme;
+  }
+
+  return widget;
+}
+
+/**
+ * Theme values end up in CSS custom properties, so they are kept to
+ * hex colours, a pixel radius and a plain font-family list.
+ */
+function normalizeTheme(input: unknown): WidgetTheme | string {
+  if (!isObject(input)) return "theme must be an object";
+
+  const theme: WidgetTheme = {};
+
+  for (const key of COLOR_KEYS) {
+    if (input[key] === undefined) continue;
+    const value = input[key];
+    if (typeof value !== "string" || !/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+      return `theme.${key} must be a hex colour like #2563eb`;
+    }
+    theme[key] = value.toLowerCase();
+  }
+
+  if (input.radius !== undefined) {
+    const radius = Number(input.radius);
+    if (!Number.isInteger(radius) || radius < 0 || radius > 32) {
+      return "theme.radius must be 0-32 pixels";
+    }
+    theme.radius = radius;
+  }
+
+  if (input.font !== undefined) {
+    if (typeof input.font !== "string" || !/^[\w\s,'"-]{1,100}$/.test(input.font)) {
+      return "theme.font must be a font-family list";
+    }
+    theme.font = input.font;
+  }
+
+  return theme;
+}
+
+function normalizeTextMap(input: unknown, max: number): Record<string, string> | null {
+  if (!isObject(input)) return null;
+
+  const entries = Object.entries(input);
+  if (entries.length > MAX_FIELDS) return null;
+
+  const map: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    if (!/^[a-z][a-z0-9_]{0,39}$/i.test(key)) return null;
+    if (typeof value !== "string" || !value.trim() || value.length > max) return null;
+    map[key] = value.trim();
+  }
+  return map;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
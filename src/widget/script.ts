@@ -0,0 +1,450 @@
+/**
+ * Client script served at /widget.js. Plain ES2017 so it runs as-is in
+ * browsers; kept free of backticks and "${" to fit in String.raw.
+ *
+ * Usage: <div data-contact-relay></div>
+ *        <script src="https://RELAY/widget.js" async></script>
+ */
+
+/** Part of the cacheable URL /widget/v1.js; bump whenever the script changes */
+export const WIDGET_VERSION = "1";
+
+export const WIDGET_SCRIPT = String.raw`(function () {
+  "use strict";
+
+  var VERSION = "__WIDGET_VERSION__";
+  var script = document.currentScript;
+  if (!script || !script.src) return;
+
+  var base = script.src.replace(/\/widget(\/v\d+)?\.js(\?.*)?$/, "");
+
+  var CAPTCHA_SCRIPTS = {
+    turnstile: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+    hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit&recaptchacompat=off",
+    recaptcha_v2: "https://www.google.com/recaptcha/api.js?render=explicit",
+    recaptcha_v3: "https://www.google.com/recaptcha/api.js?render="
+  };
+  var CAPTCHA_GLOBALS = {
+    turnstile: "turnstile",
+    hcaptcha: "hcaptcha",
+    recaptcha_v2: "grecaptcha",
+    recaptcha_v3: "grecaptcha"
+  };
+  var TOKEN_FIELDS = {
+    turnstile: "cf_turnstile_response",
+    hcaptcha: "hcaptcha_response",
+    recaptcha_v2: "recaptcha_response",
+    recaptcha_v3: "recaptcha_response"
+  };
+
+  var MESSAGES = {
+    unavailable: "The contact form is unavailable right now.",
+    sending: "Sending…",
+    network: "Your message could not be sent. Check your connection and try again.",
+    validation_failed: "Please correct the highlighted fields.",
+    empty_payload: "Please fill in the form.",
+    too_fast: "That was quick! Please wait a moment and send again.",
+    captcha_failed: "Please complete the captcha and try again.",
+    invalid_form_token: "The form has expired. Please send again.",
+    form_token_required: "The form has expired. Please send again.",
+    rate_limited: "Too many messages. Please try again later.",
+    default: "Something went wrong. Please try again."
+  };
+  var FIELD_MESSAGES = {
+    required: "This field is required.",
+    too_long: "This is too long.",
+    invalid_email: "Enter a valid email address.",
+    invalid_tel: "Enter a valid phone number.",
+    invalid_number: "Enter a number.",
+    invalid_url: "Enter a full link, starting with https://",
+    invalid_option: "Choose one of the options.",
+    invalid: "Check this field."
+  };
+  var AUTOCOMPLETE = { name: "name", email: "email", telegram: "off", message: "off" };
+
+  var CSS =
+    ".cr-widget{--cr-primary:#2563eb;--cr-background:#fff;--cr-text:#111827;--cr-border:#d1d5db;" +
+    "--cr-error:#b91c1c;--cr-radius:6px;display:grid;gap:12px;max-width:480px;padding:16px;" +
+    "box-sizing:border-box;color:var(--cr-text);background:var(--cr-background);" +
+    "border-radius:var(--cr-radius);font-family:var(--cr-font,inherit)}" +
+    ".cr-widget *{box-sizing:border-box}" +
+    ".cr-widget [hidden]{display:none!important}" +
+    ".cr-title{margin:0;font-size:1.25em}" +
+    ".cr-field{display:grid;gap:4px}" +
+    ".cr-field label{font-weight:600}" +
+    ".cr-widget input:not([type=checkbox]),.cr-widget select,.cr-widget textarea{width:100%;" +
+    "padding:8px 10px;font:inherit;color:inherit;background:var(--cr-background);" +
+    "border:1px solid var(--cr-border);border-radius:var(--cr-radius)}" +
+    ".cr-widget textarea{min-height:120px;resize:vertical}" +
+    ".cr-widget :focus-visible{outline:2px solid var(--cr-primary);outline-offset:2px}" +
+    ".cr-widget [aria-invalid=true]{border-color:var(--cr-error)}" +
+    ".cr-check{display:flex;gap:8px;align-items:flex-start}" +
+    ".cr-check label{font-weight:400}" +
+    ".cr-required,.cr-error,.cr-alert{color:var(--cr-error)}" +
+    ".cr-error{margin:0;font-size:.875em}" +
+    ".cr-alert,.cr-success{margin:0}" +
+    ".cr-success{font-weight:600}" +
+    ".cr-hp{position:absolute;left:-10000px;width:1px;height:1px;overflow:hidden}" +
+    ".cr-submit{justify-self:start;padding:10px 18px;font:inherit;font-weight:600;color:#fff;" +
+    "background:var(--cr-primary);border:0;border-radius:var(--cr-radius);cursor:pointer}" +
+    ".cr-submit[disabled]{opacity:.6;cursor:progress}";
+
+  var counter = 0;
+  var scripts = {};
+  var styled = false;
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    for (var key in attrs || {}) {
+      if (attrs[key] === false || attrs[key] === undefined || attrs[key] === null) continue;
+      node.setAttribute(key, attrs[key] === true ? "" : String(attrs[key]));
+    }
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === "string" ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function loadScript(src) {
+    if (!scripts[src]) {
+      scripts[src] = new Promise(function (resolve, reject) {
+        var tag = el("script", { src: src, async: true });
+        tag.onload = resolve;
+        tag.onerror = reject;
+        document.head.appendChild(tag);
+      });
+    }
+    return scripts[src];
+  }
+
+  // Captcha APIs may finish initialising after the script's load event.
+  // Only reCAPTCHA needs ready(); Turnstile's throws for async scripts.
+  function waitForGlobal(name) {
+    return new Promise(function (resolve, reject) {
+      var tries = 0;
+      (function check() {
+        var api = window[name];
+        if (api && (api.render || api.execute)) {
+          if (name === "grecaptcha") api.ready(function () { resolve(api); });
+          else resolve(api);
+        } else if (++tries > 100) {
+          reject(new Error(name + " did not load"));
+        } else {
+          setTimeout(check, 100);
+        }
+      })();
+    });
+  }
+
+  function uuid() {
+    if (window.crypto && crypto.randomUUID) return crypto.randomUUID();
+    var bytes = crypto.getRandomValues(new Uint8Array(16));
+    return Array.prototype.map.call(bytes, function (b) {
+      return (b + 256).toString(16).slice(1);
+    }).join("");
+  }
+
+  function mount(container) {
+    if (!container || container.getAttribute("data-contact-relay-mounted")) return;
+    container.setAttribute("data-contact-relay-mounted", VERSION);
+
+    fetch(base + "/widget/config", { credentials: "omit" })
+      .then(function (response) { return response.json(); })
+      .then(function (config) {
+        if (config.status !== "ok") throw new Error(config.error);
+        render(container, config);
+      })
+      .catch(function () {
+        container.appendChild(el("p", { class: "cr-alert", role: "alert" }, [MESSAGES.unavailable]));
+      });
+  }
+
+  function render(container, config) {
+    if (!styled) {
+      document.head.appendChild(el("style", {}, [CSS]));
+      styled = true;
+    }
+
+    var prefix = "cr" + ++counter;
+    var messages = Object.assign({}, MESSAGES, config.messages || {});
+    var loadedAt = Date.now();
+    var idempotencyKey = null;
+    var formToken = null;
+    var captcha = null;
+    var busy = false;
+    var inputs = {};
+    var errors = {};
+
+    var form = el("form", { class: "cr-widget", novalidate: true });
+    var theme = config.theme || {};
+    ["primary", "background", "text", "border"].forEach(function (key) {
+      if (theme[key]) form.style.setProperty("--cr-" + key, theme[key]);
+    });
+    if (theme.radius !== undefined) form.style.setProperty("--cr-radius", theme.radius + "px");
+    if (theme.font) form.style.setProperty("--cr-font", theme.font);
+
+    if (config.title) {
+      form.setAttribute("aria-labelledby", prefix + "-title");
+      form.appendChild(el("h3", { class: "cr-title", id: prefix + "-title" }, [config.title]));
+    }
+
+    config.fields.forEach(function (field) {
+      var id = prefix + "-" + field.name;
+      var errorId = id + "-error";
+      var attrs = {
+        id: id,
+        name: field.name,
+        required: !!field.required,
+        "aria-describedby": errorId
+      };
+      var label = el("label", { for: id }, [field.label]);
+      if (field.required) {
+        label.appendChild(el("span", { class: "cr-required", "aria-hidden": "true" }, [" *"]));
+      }
+
+      var input;
+      if (field.type === "textarea") {
+        attrs.maxlength = field.max_length;
+        input = el("textarea", attrs);
+      } else if (field.type === "select") {
+        input = el("select", attrs, [el("option", { value: "" }, [""])].concat(
+          (field.options || []).map(function (option) {
+            return el("option", { value: option }, [option]);
+          })
+        ));
+      } else {
+        attrs.type = field.type;
+        attrs.maxlength = field.type === "checkbox" ? null : field.max_length;
+        attrs.autocomplete = AUTOCOMPLETE[field.name];
+        input = el("input", attrs);
+      }
+
+      var error = el("p", { class: "cr-error", id: errorId, hidden: true });
+      var wrapper = field.type === "checkbox"
+        ? el("div", { class: "cr-field" }, [el("div", { class: "cr-check" }, [input, label]), error])
+        : el("div", { class: "cr-field" }, [label, input, error]);
+
+      input.addEventListener("input", function () {
+        idempotencyKey = null;
+        setFieldError(field.name, null);
+      });
+
+      inputs[field.name] = input;
+      errors[field.name] = error;
+      form.appendChild(wrapper);
+    });
+
+    // Honeypot: hidden from people and assistive tech, filled in by bots
+    var honeypot = el("input", {
+      type: "text",
+      name: "website",
+      id: prefix + "-website",
+      tabindex: "-1",
+      autocomplete: "off"
+    });
+    form.appendChild(el("div", { class: "cr-hp", "aria-hidden": "true" }, [
+      el("label", { for: prefix + "-website" }, ["Leave this field empty"]),
+      honeypot
+    ]));
+
+    var captchaBox = el("div", { class: "cr-captcha" });
+    form.appendChild(captchaBox);
+
+    var alert = el("p", { class: "cr-alert", role: "alert", hidden: true });
+    var success = el("p", { class: "cr-success", role: "status", tabindex: "-1", hidden: true });
+    var submitLabel = config.submit_label || "Send";
+    var button = el("button", { type: "submit", class: "cr-submit" }, [submitLabel]);
+    form.appendChild(alert);
+    form.appendChild(button);
+    form.appendChild(success);
+    container.appendChild(form);
+
+    if (config.form_token) refreshToken();
+    if (config.captcha) {
+      setupCaptcha(config.captcha, captchaBox).then(function (api) { captcha = api; }, function () {
+        showAlert(messages.captcha_failed);
+      });
+    }
+
+    function refreshToken() {
+      formToken = fetch(base + "/token", { credentials: "omit" })
+        .then(function (response) { return response.json(); })
+        .then(function (data) { return data.token || ""; })
+        .catch(function () { return ""; });
+    }
+
+    function setFieldError(name, code) {
+      var input = inputs[name];
+      var error = errors[name];
+      if (!input || !error) return false;
+      if (code) {
+        input.setAttribute("aria-invalid", "true");
+        error.textContent = messages[code] || FIELD_MESSAGES[code] || FIELD_MESSAGES.invalid;
+        error.hidden = false;
+      } else {
+        input.removeAttribute("aria-invalid");
+        error.textContent = "";
+        error.hidden = true;
+      }
+      return true;
+    }
+
+    function showAlert(text) {
+      alert.textContent = text || "";
+      alert.hidden = !text;
+    }
+
+    function setBusy(value) {
+      busy = value;
+      button.disabled = value;
+      form.setAttribute("aria-busy", value ? "true" : "false");
+      button.textContent = value ? messages.sending : submitLabel;
+    }
+
+    function localErrors() {
+      var first = null;
+      config.fields.forEach(function (field) {
+        var input = inputs[field.name];
+        var validity = input.validity;
+        var code = validity.valid ? null
+          : validity.valueMissing ? "required"
+          : validity.tooLong ? "too_long"
+          : field.type === "email" ? "invalid_email"
+          : field.type === "url" ? "invalid_url"
+          : field.type === "number" ? "invalid_number"
+          : "invalid";
+        setFieldError(field.name, code);
+        if (code && !first) first = input;
+      });
+      return first;
+    }
+
+    function collect() {
+      var body = { website: honeypot.value, ts: String(loadedAt) };
+      config.fields.forEach(function (field) {
+        var input = inputs[field.name];
+        body[field.name] = field.type === "checkbox" ? (input.checked ? "on" : "") : input.value;
+      });
+      return body;
+    }
+
+    form.addEventListener("submit", function (event) {
+      event.preventDefault();
+      if (busy) return;
+
+      showAlert("");
+      var invalid = localErrors();
+      if (invalid) {
+        invalid.focus();
+        return;
+      }
+
+      setBusy(true);
+      var body = collect();
+      if (!idempotencyKey) idempotencyKey = uuid();
+
+      Promise.all([
+        formToken || Promise.resolve(""),
+        captcha ? captcha.token() : Promise.resolve("")
+      ])
+        .then(function (tokens) {
+          if (tokens[0]) body.form_token = tokens[0];
+          if (tokens[1]) body[TOKEN_FIELDS[config.captcha.provider]] = tokens[1];
+          return fetch(base + "/send", {
+            method: "POST",
+            credentials: "omit",
+            headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+            body: JSON.stringify(body)
+          });
+        })
+        .then(function (response) {
+          return response.json().then(function (data) { return { response: response, data: data }; });
+        })
+        .then(function (result) {
+          var data = result.data;
+          if (data.status === "ok") {
+            idempotencyKey = null;
+            Array.prototype.forEach.call(form.children, function (child) {
+              child.hidden = child !== success;
+            });
+            success.textContent = config.success_message || "Thank you! Your message has been sent.";
+            success.hidden = false;
+            success.focus();
+            return;
+          }
+
+          // A new attempt gets a new key, token and captcha
+          idempotencyKey = null;
+          if (config.form_token) refreshToken();
+          if (captcha) captcha.reset();
+
+          var focused = false;
+          (data.fields || []).forEach(function (error) {
+            if (setFieldError(error.field, error.code) && !focused) {
+              inputs[error.field].focus();
+              focused = true;
+            }
+          });
+
+          var text = messages[data.error] || messages.default;
+          var retryAfter = result.response.headers.get("Retry-After");
+          if (data.error === "rate_limited" && retryAfter) {
+            text += " (" + retryAfter + "s)";
+          }
+          showAlert(text);
+        })
+        .catch(function () {
+          // Same key on retry, so a request that did arrive isn't delivered twice
+          showAlert(messages.network);
+        })
+        .then(function () {
+          setBusy(false);
+        });
+    });
+  }
+
+  function setupCaptcha(settings, box) {
+    var provider = settings.provider;
+    var src = CAPTCHA_SCRIPTS[provider] +
+      (provider === "recaptcha_v3" ? encodeURIComponent(settings.site_key) : "");
+
+    return loadScript(src).then(function () {
+      return waitForGlobal(CAPTCHA_GLOBALS[provider]);
+    }).then(function (api) {
+      if (provider === "recaptcha_v3") {
+        return {
+          token: function () {
+            return api.execute(settings.site_key, { action: settings.action || "submit" });
+          },
+          reset: function () {}
+        };
+      }
+
+      var options = { sitekey: settings.site_key };
+      if (provider === "turnstile" && settings.action) options.action = settings.action;
+      var widgetId = api.render(box, options);
+
+      return {
+        token: function () {
+          return Promise.resolve(api.getResponse(widgetId) || "");
+        },
+        reset: function () {
+          api.reset(widgetId);
+        }
+      };
+    });
+  }
+
+  function mountAll() {
+    Array.prototype.forEach.call(document.querySelectorAll("[data-contact-relay]"), mount);
+  }
+
+  window.ContactRelay = { version: VERSION, mount: mount };
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
+`.replace("__WIDGET_VERSION__", WIDGET_VERSION);